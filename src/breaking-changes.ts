@@ -0,0 +1,85 @@
+import { parseDiffSections, type DiffFileSection } from "./diff-digest.js";
+
+const MAX_BREAKING_CHANGES = 8;
+const SCRIPT_FILE = /\.[cm]?[jt]sx?$/i;
+const CONFIG_FILE = /\.(?:json|jsonc|ya?ml)$/i;
+const NON_CONFIG_PATH = /(?:^|\/)(?:\.github|\.circleci|\.gitlab|tests?|__tests__|spec|__fixtures__|fixtures?|testdata|locales?|i18n|translations)\/|(?:^|\/)(?:\.gitlab-ci\.ya?ml|package-lock\.json|npm-shrinkwrap\.json|pnpm-lock\.yaml|composer\.lock)$|\.(?:test|spec)\.[^/]+$/i;
+const PACKAGE_MANIFEST = /(?:^|\/)package\.json$/;
+const EXPORT_DECLARATION = /^export\s+(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|interface|type|enum|const|let|var)\s+([A-Za-z_$][\w$]*)/;
+const EXPORTED_FUNCTION = /^export\s+(?:default\s+)?(?:async\s+)?function\*?\s+([A-Za-z_$][\w$]*)\s*(\(.*)$/;
+const CLI_OPTION = /\.(?:option|requiredOption)\(\s*["'`][^"'`]*?(--[\w-]+)/;
+const CONFIG_KEY = /^\s*(?:"([^"]+)"|(?:-\s+)?([A-Za-z_][\w.-]*))\s*:(?:\s|$)/;
+const PACKAGE_VERSION = /^\s*"version"\s*:\s*"v?((\d+)\.\d+\.\d+[^"]*)"/;
+
+function changedLines(section: DiffFileSection, marker: "+" | "-"): string[] {
+    return section.hunks
+        .flat()
+        .filter((line) => line.startsWith(marker) && !line.startsWith(marker.repeat(3)))
+        .map((line) => line.slice(1));
+}
+
+function matchAll(lines: string[], pattern: RegExp): Map<string, string> {
+    const found = new Map<string, string>();
+    for (const line of lines) {
+        const match = line.match(pattern);
+        const name = match?.[1] ?? match?.[2];
+        if (match && name && !found.has(name)) found.set(name, match[0]);
+    }
+    return found;
+}
+
+function normalizeSignature(signature: string): string {
+    return signature.replace(/\s+/g, " ").replace(/\s*\{\s*$/, "").trim();
+}
+
+export function detectBreakingChanges(diff: string): string[] {
+    const sections = parseDiffSections(diff);
+    const scripts = sections.filter((section) => SCRIPT_FILE.test(section.path));
+    const addedExports = new Set(scripts.flatMap((section) => [...matchAll(changedLines(section, "+"), EXPORT_DECLARATION).keys()]));
+    const addedOptions = new Set(scripts.flatMap((section) => [...matchAll(changedLines(section, "+"), CLI_OPTION).keys()]));
+    const findings: string[] = [];
+
+    for (const section of scripts) {
+        const removed = changedLines(section, "-");
+        const added = changedLines(section, "+");
+        const addedFunctions = new Map(added.flatMap((line) => {
+            const match = line.match(EXPORTED_FUNCTION);
+            return match ? [[match[1], normalizeSignature(match[2])] as const] : [];
+        }));
+
+        for (const name of matchAll(removed, EXPORT_DECLARATION).keys()) {
+            if (!addedExports.has(name)) findings.push(`${section.path}: removed export ${name}`);
+        }
+        for (const line of removed) {
+            const match = line.match(EXPORTED_FUNCTION);
+            const current = match ? addedFunctions.get(match[1]) : undefined;
+            if (match && current !== undefined && current !== normalizeSignature(match[2])) {
+                findings.push(`${section.path}: changed signature of ${match[1]}`);
+            }
+        }
+        for (const option of matchAll(removed, CLI_OPTION).keys()) {
+            if (!addedOptions.has(option)) findings.push(`${section.path}: removed CLI option ${option}`);
+        }
+    }
+
+    for (const section of sections.filter((entry) => CONFIG_FILE.test(entry.path) && !NON_CONFIG_PATH.test(entry.path))) {
+        const removed = changedLines(section, "-");
+        const added = changedLines(section, "+");
+
+        if (PACKAGE_MANIFEST.test(section.path)) {
+            const before = removed.map((line) => line.match(PACKAGE_VERSION)).find(Boolean);
+            const after = added.map((line) => line.match(PACKAGE_VERSION)).find(Boolean);
+            if (before && after && Number(after[2]) > Number(before[2])) {
+                findings.push(`${section.path}: major version bump ${before[1]} -> ${after[1]}`);
+            }
+            continue;
+        }
+
+        const remaining = matchAll(added, CONFIG_KEY);
+        for (const key of matchAll(removed, CONFIG_KEY).keys()) {
+            if (!remaining.has(key)) findings.push(`${section.path}: removed config key ${key}`);
+        }
+    }
+
+    return findings.slice(0, MAX_BREAKING_CHANGES);
+}
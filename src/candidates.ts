@@ -1,18 +1,34 @@
-import { ollamaChat } from "./ollama.js";
+import { buildScoreContext } from "./diagnostics.js";
+import { HEURISTIC_MODEL, type HeuristicChanges } from "./heuristic.js";
 import { extractTicketFromMessage, lintCommitMessage } from "./policy.js";
-import { buildMessages } from "./prompt.js";
+import type { DiffGroup } from "./diff-digest.js";
+import { buildMessages, buildResponseSchema, buildSummaryMessages, type ChangeNote } from "./prompt.js";
+import { runWithModelFallback } from "./model-fallback.js";
+import { varyTemperature, type ModelOptions } from "./model-options.js";
+import { createProvider, type ChatMessage, type JsonSchema, type ProviderChatRequest } from "./provider.js";
+import { ProviderError } from "./provider-http.js";
 import { rankCandidates, type RankedCandidate } from "./ranking.js";
+import { buildChangeVocabulary, relatesToChanges } from "./relevance.js";
+import { createCacheKey, readCachedResponse, writeCachedResponse } from "./response-cache.js";
+import { resolveRequestContextTokens } from "./token-budget.js";
 import {
     appendTicketFooter,
     extractMessageFromModelOutput,
     extractMessageListFromModelOutput,
+    hasMessagePayload,
     normalizeMessage,
     parseConventionalSubject,
     repairMessage
 } from "./validation.js";
 import type { RepoContext, ResolvedWorkflowOptions } from "./workflow.js";
 
-type CandidateDraft = Pick<RankedCandidate, "message" | "source" | "validation" | "validationErrors">;
+type CandidateDraft = Pick<RankedCandidate, "message" | "source" | "validation" | "validationErrors" | "warnings">;
+
+export type GenerationStream = Pick<ProviderChatRequest, "onProgress" | "signal">;
+
+const UNRELATED_MESSAGE_WARNING = "The message does not mention anything from the staged changes. Check the diff for text aimed at the model.";
+
+const changeNotesByContext = new WeakMap<RepoContext, Promise<ChangeNote[]>>();
 
 function normalizeFeedback(feedback: string): string {
     return feedback.trim().toLowerCase();
@@ -38,7 +54,8 @@ function toCandidateDraft(
         diff: context.diff,
         forcedType: options.type,
         scope: context.effectiveScope,
-        ticket: context.ticket
+        ticket: context.ticket,
+        requireBreakingFooter: options.policy.requireBreakingFooter
     });
 
     const message = normalizeMessage(repaired.message);
@@ -49,7 +66,10 @@ function toCandidateDraft(
         validationErrors: lintResult.errors,
         validation: lintResult.ok
             ? { ok: true }
-            : { ok: false, reason: lintResult.errors[0] ?? "Invalid commit message" }
+            : { ok: false, reason: lintResult.errors[0] ?? "Invalid commit message" },
+        warnings: relatesToChanges(message, buildChangeVocabulary(context.files, context.diff))
+            ? []
+            : [UNRELATED_MESSAGE_WARNING]
     };
 }
 
@@ -89,7 +109,8 @@ function toRevisedCandidateDraft(
         diff: context.diff,
         forcedType: options.type,
         scope: resolveRevisionScope(rawMessage, currentMessage, context, options, feedback),
-        ticket: options.ticket
+        ticket: options.ticket,
+        requireBreakingFooter: options.policy.requireBreakingFooter
     });
 
     let message = normalizeMessage(repaired.message);
@@ -114,18 +135,145 @@ function toRevisedCandidateDraft(
     };
 }
 
+type ModelRequest = {
+    messages: ChatMessage[];
+    schema: JsonSchema;
+    changes: HeuristicChanges;
+    cacheable: boolean;
+    stream?: GenerationStream;
+    attempt?: number;
+    fresh?: boolean;
+};
+
+function buildHeuristicChanges(
+    context: RepoContext,
+    options: ResolvedWorkflowOptions,
+    diff = context.diff,
+    files = context.files
+): HeuristicChanges {
+    return {
+        diff,
+        files,
+        type: options.type ?? context.expectedType,
+        scope: context.effectiveScope,
+        allowedTypes: options.policy.allowedTypes
+    };
+}
+
+function withRequestContext(modelOptions: ModelOptions, context: RepoContext, options: ResolvedWorkflowOptions): ModelOptions {
+    if (options.provider !== "ollama" || modelOptions.numCtx !== undefined) return modelOptions;
+    const numCtx = resolveRequestContextTokens(context.promptBudget);
+    return numCtx === null ? modelOptions : { ...modelOptions, numCtx };
+}
+
+async function requestModel(
+    context: RepoContext,
+    options: ResolvedWorkflowOptions,
+    request: ModelRequest
+): Promise<string> {
+    const provider = createProvider(options);
+    const modelOptions = withRequestContext(varyTemperature(options.modelOptions, request.attempt ?? 0), context, options);
+    const cachePath = request.cacheable ? context.cachePath : null;
+
+    return (await runWithModelFallback(options.modelChain, async (model) => {
+        const chatRequest: ProviderChatRequest = {
+            model,
+            messages: request.messages,
+            json: true,
+            schema: request.schema,
+            timeoutMs: options.timeoutMs,
+            retries: options.retries,
+            modelOptions,
+            changes: request.changes,
+            ...request.stream
+        };
+        if (model === HEURISTIC_MODEL) return await provider.chat(chatRequest);
+
+        const cacheKey = createCacheKey({
+            provider: options.provider,
+            host: options.host,
+            model,
+            modelOptions,
+            schema: request.schema,
+            messages: request.messages
+        });
+        if (cachePath && !request.fresh) {
+            const cached = await readCachedResponse(cachePath, cacheKey);
+            if (cached !== null) {
+                request.stream?.onProgress?.(cached);
+                return cached;
+            }
+        }
+
+        const output = await provider.chat(chatRequest);
+        if (cachePath && hasMessagePayload(output)) await writeCachedResponse(cachePath, cacheKey, output);
+        return output;
+    })).trim();
+}
+
+async function summarizeDiffGroups(
+    context: RepoContext,
+    options: ResolvedWorkflowOptions,
+    groups: DiffGroup[]
+): Promise<ChangeNote[]> {
+    const notes: ChangeNote[] = [];
+    let nextGroup = 0;
+
+    const worker = async (): Promise<void> => {
+        while (nextGroup < groups.length) {
+            const index = nextGroup;
+            nextGroup += 1;
+            const group = groups[index];
+            const raw = await requestModel(context, options, {
+                messages: buildSummaryMessages({ diff: group.diff, files: group.files }),
+                schema: buildResponseSchema(1),
+                changes: buildHeuristicChanges(context, options, group.diff, group.files),
+                cacheable: true
+            });
+            notes[index] = { files: group.files, summary: extractMessageFromModelOutput(raw) };
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(options.concurrency, groups.length) }, worker));
+    return notes;
+}
+
+function getChangeNotes(
+    context: RepoContext,
+    options: ResolvedWorkflowOptions
+): Promise<ChangeNote[]> | null {
+    if (!context.diffGroups) return null;
+
+    let notes = changeNotesByContext.get(context);
+    if (!notes) {
+        notes = summarizeDiffGroups(context, options, context.diffGroups);
+        changeNotesByContext.set(context, notes);
+        notes.catch(() => changeNotesByContext.delete(context));
+    }
+    return notes;
+}
+
 async function requestModelOutput(
     context: RepoContext,
     options: ResolvedWorkflowOptions,
     candidateCount: number,
-    revisionRequest?: {
-        currentMessage: string;
-        feedback: string;
-    }
+    request: {
+        revisionRequest?: {
+            currentMessage: string;
+            feedback: string;
+        };
+        stream?: GenerationStream;
+        attempt?: number;
+        fresh?: boolean;
+    } = {}
 ): Promise<string> {
+    const changeNotes = await getChangeNotes(context, options) ?? undefined;
     const messages = buildMessages({
         diff: context.diff,
         files: context.files,
+        changes: context.changes,
+        touchedSymbols: context.touchedSymbols,
+        breakingChanges: context.breakingChanges,
         branch: context.branch,
         suggestedScope: context.effectiveScope,
         ticket: context.ticket,
@@ -135,32 +283,38 @@ async function requestModelOutput(
         knownScopes: options.knownScopes,
         candidateCount,
         policy: options.policy,
-        revisionRequest
+        changeNotes,
+        revisionRequest: request.revisionRequest
     });
 
-    return (await ollamaChat({
-        host: options.host,
-        model: options.model,
+    return await requestModel(context, options, {
         messages,
-        json: true,
-        timeoutMs: options.timeoutMs,
-        retries: options.retries
-    })).trim();
+        schema: buildResponseSchema(candidateCount),
+        changes: buildHeuristicChanges(context, options),
+        cacheable: !request.revisionRequest,
+        stream: request.stream,
+        attempt: request.attempt,
+        fresh: request.fresh
+    });
 }
 
 async function generateSingleCandidate(
     context: RepoContext,
-    options: ResolvedWorkflowOptions
+    options: ResolvedWorkflowOptions,
+    attempt: number,
+    fresh: boolean,
+    stream?: GenerationStream
 ): Promise<CandidateDraft> {
-    const raw = await requestModelOutput(context, options, 1);
+    const raw = await requestModelOutput(context, options, 1, { stream, attempt, fresh });
     return toCandidateDraft(extractMessageFromModelOutput(raw), context, options);
 }
 
 async function generateBatchCandidates(
     context: RepoContext,
-    options: ResolvedWorkflowOptions
+    options: ResolvedWorkflowOptions,
+    fresh: boolean
 ): Promise<CandidateDraft[]> {
-    const raw = await requestModelOutput(context, options, options.candidates);
+    const raw = await requestModelOutput(context, options, options.candidates, { fresh });
     const messages = extractMessageListFromModelOutput(raw);
     if (!messages || messages.length === 0) return [];
 
@@ -177,33 +331,99 @@ function pushUniqueCandidate(
     candidates.push(candidate);
 }
 
+async function generateSingleCandidatesInParallel(
+    workerCount: number,
+    attempts: number,
+    target: number,
+    timeoutMs: number,
+    runAttempt: (attempt: number, signal: AbortSignal, streaming: boolean) => Promise<number>
+): Promise<boolean> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeoutMs);
+    let nextAttempt = 0;
+    let collected = 0;
+
+    const worker = async (_: unknown, index: number): Promise<void> => {
+        while (nextAttempt < attempts && collected < target && !controller.signal.aborted) {
+            const attempt = nextAttempt;
+            nextAttempt += 1;
+            try {
+                collected = await runAttempt(attempt, controller.signal, index === 0);
+            } catch (error: unknown) {
+                if (controller.signal.aborted && error instanceof ProviderError && error.code === "ABORTED") return;
+                throw error;
+            }
+        }
+        if (collected >= target) controller.abort();
+    };
+
+    try {
+        await Promise.all(Array.from({ length: workerCount }, worker));
+    } finally {
+        clearTimeout(timer);
+        controller.abort();
+    }
+    return timedOut;
+}
+
 export async function generateCandidates(
     context: RepoContext,
-    options: ResolvedWorkflowOptions
+    options: ResolvedWorkflowOptions,
+    stream?: GenerationStream,
+    fresh = false
 ): Promise<RankedCandidate[]> {
     const attempts = Math.max(options.candidates, 1) * 3;
     const uniqueMessages = new Set<string>();
     const candidates: CandidateDraft[] = [];
+    const firstSingleAttempt = options.candidates > 1 ? 1 : 0;
 
     if (options.candidates > 1) {
-        const batchCandidates = await generateBatchCandidates(context, options);
+        const batchCandidates = await generateBatchCandidates(context, options, fresh);
         for (const candidate of batchCandidates) {
             pushUniqueCandidate(candidate, uniqueMessages, candidates);
             if (candidates.length >= options.candidates) break;
         }
     }
 
-    for (let attempt = 0; attempt < attempts && candidates.length < options.candidates; attempt += 1) {
-        const candidate = await generateSingleCandidate(context, options);
-        pushUniqueCandidate(candidate, uniqueMessages, candidates);
+    const workerCount = Math.min(options.concurrency, options.candidates - candidates.length);
+    if (workerCount <= 1) {
+        for (let attempt = 0; attempt < attempts && candidates.length < options.candidates; attempt += 1) {
+            const candidate = await generateSingleCandidate(context, options, firstSingleAttempt + attempt, fresh, stream);
+            pushUniqueCandidate(candidate, uniqueMessages, candidates);
+        }
+    } else {
+        const timedOut = await generateSingleCandidatesInParallel(
+            workerCount,
+            attempts,
+            options.candidates,
+            options.timeoutMs,
+            async (attempt, signal, streaming) => {
+                const candidate = await generateSingleCandidate(
+                    context,
+                    options,
+                    firstSingleAttempt + attempt,
+                    fresh,
+                    {
+                        onProgress: streaming ? stream?.onProgress : undefined,
+                        signal: stream?.signal ? AbortSignal.any([stream.signal, signal]) : signal
+                    }
+                );
+                pushUniqueCandidate(candidate, uniqueMessages, candidates);
+                return candidates.length;
+            }
+        );
+        if (timedOut && candidates.length === 0) {
+            throw new ProviderError(`Candidate generation timed out (${options.timeoutMs}ms).`, "TIMEOUT", {
+                hint: "Increase --timeout-ms or lower --candidates."
+            });
+        }
     }
 
-    return rankCandidates(candidates, {
-        expectedType: context.expectedType,
-        expectedScope: context.effectiveScope,
-        ticket: context.ticket,
-        subjectMaxLength: options.policy.subjectMaxLength
-    });
+    return rankCandidates(candidates, buildScoreContext(context, options));
 }
 
 export async function reviseCandidate(
@@ -213,8 +433,10 @@ export async function reviseCandidate(
     feedback: string
 ): Promise<RankedCandidate> {
     const raw = await requestModelOutput(context, options, 1, {
-        currentMessage,
-        feedback
+        revisionRequest: {
+            currentMessage,
+            feedback
+        }
     });
     const candidate = toRevisedCandidateDraft(
         extractMessageFromModelOutput(raw),
@@ -225,11 +447,6 @@ export async function reviseCandidate(
     );
     return {
         ...candidate,
-        ...rankCandidates([candidate], {
-            expectedType: context.expectedType,
-            expectedScope: context.effectiveScope,
-            ticket: context.ticket,
-            subjectMaxLength: options.policy.subjectMaxLength
-        })[0]
+        ...rankCandidates([candidate], buildScoreContext(context, options))[0]
     };
 }
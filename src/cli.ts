@@ -1,6 +1,7 @@
 #!/usr/bin/env node
 import { fileURLToPath } from "node:url";
 import { Command } from "commander";
+import { GENERATION_STRATEGIES, isGenerationStrategy, type GenerationStrategy } from "./config.js";
 import { runDoctor } from "./doctor.js";
 import { ExitCode } from "./exit-codes.js";
 import { getMessageSubject } from "./finalize.js";
@@ -17,20 +18,53 @@ import {
     renderActionSummary,
     renderDoctorReport,
     renderErrorBlock,
+    renderNotice,
     renderReviewScreen,
     renderStateCard,
     renderValidationBlock
 } from "./ui.js";
 import { buildDefaultWorkflowOptions, MAX_RETRIES, MAX_TIMEOUT_MS, MIN_RETRIES, MIN_TIMEOUT_MS } from "./workflow-options.js";
-import { parseBoundedInteger } from "./util.js";
+import {
+    MAX_NUM_CTX,
+    MAX_SEED,
+    MAX_TEMPERATURE,
+    MAX_TOP_P,
+    mergeModelOptions,
+    MIN_NUM_CTX,
+    MIN_SEED,
+    MIN_TEMPERATURE,
+    MIN_TOP_P,
+    type ModelOptions
+} from "./model-options.js";
+import { HEURISTIC_FALLBACK_NOTICE, isHeuristicFallback } from "./heuristic.js";
+import { parseProviderName } from "./provider.js";
+import { parseBoundedInteger, parseBoundedNumber } from "./util.js";
 import { isAllowedType, type AllowedType } from "./validation.js";
-import { MAX_CANDIDATES, MAX_MAX_CHARS, MIN_CANDIDATES, MIN_MAX_CHARS, runWorkflow, type OutputFormat, type WorkflowOptions, type WorkflowResult } from "./workflow.js";
+import {
+    MAX_CANDIDATES,
+    MAX_CONCURRENCY,
+    MAX_MAX_CHARS,
+    MIN_CANDIDATES,
+    MIN_CONCURRENCY,
+    MIN_MAX_CHARS,
+    runWorkflow,
+    type OutputFormat,
+    type WorkflowOptions,
+    type WorkflowResult
+} from "./workflow.js";
 import { WorkflowError } from "./workflow-errors.js";
 
 type RawCliOptions = {
+    provider?: string;
     model?: string;
     host?: string;
+    temperature?: string;
+    seed?: string;
+    numCtx?: string;
+    topP?: string;
+    heuristicFallback?: boolean;
     maxChars?: string;
+    strategy?: string;
     type?: string;
     scope?: string;
     dryRun: boolean;
@@ -43,8 +77,12 @@ type RawCliOptions = {
     output?: string;
     config?: string;
     candidates?: string;
+    concurrency?: string;
     ticket?: string;
     history?: boolean;
+    cache: boolean;
+    record?: string;
+    replay?: string;
 };
 
 type RawLintOptions = {
@@ -58,6 +96,7 @@ type RawHookOptions = {
 };
 
 type RawDoctorOptions = {
+    provider?: string;
     model?: string;
     host?: string;
     timeoutMs?: string;
@@ -75,11 +114,30 @@ function parseOptionalBoundedInteger(
     return parseBoundedInteger(value, name, min, max);
 }
 
+function parseOptionalBoundedNumber(
+    value: string | undefined,
+    name: string,
+    min: number,
+    max: number
+): number | null {
+    if (value === undefined) return null;
+    return parseBoundedNumber(value, name, min, max);
+}
+
 function parseOutput(value: string): OutputFormat {
     if (value === "text" || value === "json") return value;
     throw new Error("--output must be one of: text, json.");
 }
 
+function parseStrategy(value: string | undefined): GenerationStrategy | null {
+    if (!value) return null;
+    const normalized = value.trim().toLowerCase();
+    if (!isGenerationStrategy(normalized)) {
+        throw new Error(`--strategy must be one of: ${GENERATION_STRATEGIES.join(", ")}.`);
+    }
+    return normalized;
+}
+
 function parseType(value: string | undefined): AllowedType | null {
     if (!value) return null;
     const normalized = value.toLowerCase();
@@ -89,13 +147,26 @@ function parseType(value: string | undefined): AllowedType | null {
     return normalized;
 }
 
+function parseModelOptions(raw: RawCliOptions): ModelOptions {
+    return mergeModelOptions({
+        temperature: parseOptionalBoundedNumber(raw.temperature, "--temperature", MIN_TEMPERATURE, MAX_TEMPERATURE) ?? undefined,
+        seed: parseOptionalBoundedInteger(raw.seed, "--seed", MIN_SEED, MAX_SEED) ?? undefined,
+        numCtx: parseOptionalBoundedInteger(raw.numCtx, "--num-ctx", MIN_NUM_CTX, MAX_NUM_CTX) ?? undefined,
+        topP: parseOptionalBoundedNumber(raw.topP, "--top-p", MIN_TOP_P, MAX_TOP_P) ?? undefined
+    });
+}
+
 function buildOptions(raw: RawCliOptions, historyExplicit: boolean): WorkflowOptions {
     const base = buildDefaultWorkflowOptions();
     return {
         ...base,
+        provider: raw.provider?.trim() ? parseProviderName(raw.provider, "--provider") : base.provider,
         model: raw.model?.trim() ? raw.model.trim() : base.model,
         host: raw.host?.trim() ? raw.host.trim() : base.host,
+        modelOptions: parseModelOptions(raw),
+        heuristicFallback: raw.heuristicFallback ?? null,
         maxChars: parseOptionalBoundedInteger(raw.maxChars, "--max-chars", MIN_MAX_CHARS, MAX_MAX_CHARS),
+        strategy: parseStrategy(raw.strategy),
         type: parseType(raw.type),
         scope: raw.scope?.trim() ? raw.scope.trim() : null,
         dryRun: raw.dryRun,
@@ -112,8 +183,12 @@ function buildOptions(raw: RawCliOptions, historyExplicit: boolean): WorkflowOpt
         output: parseOutput((raw.output ?? "text").toLowerCase()),
         configPath: raw.config?.trim() ? raw.config.trim() : null,
         candidates: parseOptionalBoundedInteger(raw.candidates, "--candidates", MIN_CANDIDATES, MAX_CANDIDATES),
+        concurrency: parseOptionalBoundedInteger(raw.concurrency, "--concurrency", MIN_CONCURRENCY, MAX_CONCURRENCY),
         ticket: raw.ticket?.trim() ? raw.ticket.trim() : null,
-        history: historyExplicit ? (raw.history ?? null) : null
+        history: historyExplicit ? (raw.history ?? null) : null,
+        cache: raw.cache,
+        record: raw.record?.trim() ? raw.record.trim() : null,
+        replay: raw.replay?.trim() ? raw.replay.trim() : null
     };
 }
 
@@ -121,6 +196,7 @@ function buildDoctorOptions(raw: RawDoctorOptions): WorkflowOptions {
     const base = buildDefaultWorkflowOptions();
     return {
         ...base,
+        provider: raw.provider?.trim() ? parseProviderName(raw.provider, "--provider") : base.provider,
         model: raw.model?.trim() ? raw.model.trim() : base.model,
         host: raw.host?.trim() ? raw.host.trim() : base.host,
         timeoutMs: raw.timeoutMs
@@ -144,6 +220,7 @@ function printJson(result: WorkflowResult, options: WorkflowOptions): void {
 
         if (result.scope) payload.scope = result.scope;
         if (result.ticket) payload.ticket = result.ticket;
+        if (result.model) payload.model = result.model;
         if (result.alternatives && result.alternatives.length > 0) {
             payload.alternatives = result.alternatives;
         }
@@ -190,9 +267,9 @@ function buildWorkflowErrorDisplay(result: Extract<WorkflowResult, { ok: false }
             };
         case "OLLAMA_ERROR":
             return {
-                problem: "Ollama is unavailable",
+                problem: "Model provider is unavailable",
                 why: result.message,
-                nextStep: result.hint ?? "Start Ollama with `ollama serve`, confirm the configured host/model, then rerun `commitgen-cc doctor`."
+                nextStep: result.hint ?? "Start the configured provider, confirm the configured host/model, then rerun `commitgen-cc doctor`."
             };
         case "INVALID_AI_OUTPUT":
             return {
@@ -226,6 +303,10 @@ function printText(result: WorkflowResult, options: WorkflowOptions): void {
     const stderrUi = createTerminalUi(process.stderr);
 
     if (result.ok) {
+        if (result.diagnostics && isHeuristicFallback(result.diagnostics.context.model)) {
+            console.error(renderNotice(stderrUi, HEURISTIC_FALLBACK_NOTICE));
+        }
+
         if (result.cancelled) {
             if (stdoutUi.richLayout && !options.ci) {
                 console.log(renderStateCard(stdoutUi, {
@@ -256,6 +337,9 @@ function printText(result: WorkflowResult, options: WorkflowOptions): void {
             return;
         }
 
+        for (const warning of result.diagnostics?.selected?.warnings ?? []) {
+            console.error(renderNotice(stderrUi, warning));
+        }
         if (options.ci) {
             console.log(result.message);
         } else {
@@ -419,23 +503,35 @@ async function runGenerateCommand(): Promise<number> {
     const program = new Command();
     program
         .name("commitgen-cc")
-        .description("Generate a Conventional Commit message from staged changes using local Ollama")
-        .option("-m, --model <name>", "Ollama model name")
-        .option("--host <url>", "Ollama host")
+        .description("Generate a Conventional Commit message from staged changes using local Ollama or an OpenAI-compatible server")
+        .option("--provider <name>", "Model provider (ollama|openai|heuristic)")
+        .option("-m, --model <name>", "Model name")
+        .option("--host <url>", "Provider host")
+        .option("--temperature <n>", `Sampling temperature (${MIN_TEMPERATURE}-${MAX_TEMPERATURE})`)
+        .option("--seed <n>", "Sampling seed for reproducible output")
+        .option("--num-ctx <n>", `Model context window in tokens (${MIN_NUM_CTX}-${MAX_NUM_CTX}, Ollama only)`)
+        .option("--top-p <n>", `Nucleus sampling threshold (${MIN_TOP_P}-${MAX_TOP_P})`)
+        .option("--heuristic-fallback", "Build an offline message when the provider is unavailable")
+        .option("--no-heuristic-fallback", "Fail when the provider is unavailable, even if the repo config enables the fallback")
         .option("--max-chars <n>", `Max diff characters sent to model (${MIN_MAX_CHARS}-${MAX_MAX_CHARS})`)
+        .option("--strategy <name>", `Generation strategy for large diffs (${GENERATION_STRATEGIES.join("|")})`)
         .option("--type <type>", "Force commit type (feat|fix|chore|refactor|docs|test|perf|build|ci)")
         .option("--scope <scope>", "Optional scope, e.g. api, infra")
         .option("--config <path>", "Path to a commitgen config file")
         .option("--candidates <n>", `Generate between ${MIN_CANDIDATES} and ${MAX_CANDIDATES} ranked candidates`)
+        .option("--concurrency <n>", `Parallel model requests when filling candidates (${MIN_CONCURRENCY}-${MAX_CONCURRENCY})`)
         .option("--ticket <id>", "Explicit ticket reference, e.g. ABC-123")
         .option("--no-history", "Disable local history examples and persistence")
+        .option("--no-cache", "Always request a fresh response instead of reusing a cached one")
+        .option("--record <file>", "Record every model request and response to a replayable fixture file")
+        .option("--replay <file>", "Serve model responses from a recorded fixture file instead of the provider")
         .option("--dry-run", "Print message only, do not commit", false)
         .option("--no-verify", "Pass --no-verify to git commit", false)
         .option("--ci", "Non-interactive mode for CI usage", false)
         .option("--allow-invalid", "Allow commit even if validation fails", false)
         .option("--explain", "Show why the message was selected", false)
-        .option("--timeout-ms <n>", `Ollama request timeout in milliseconds (${MIN_TIMEOUT_MS}-${MAX_TIMEOUT_MS})`)
-        .option("--retries <n>", `Retry count for transient Ollama failures (${MIN_RETRIES}-${MAX_RETRIES})`)
+        .option("--timeout-ms <n>", `Provider request timeout in milliseconds (${MIN_TIMEOUT_MS}-${MAX_TIMEOUT_MS})`)
+        .option("--retries <n>", `Retry count for transient provider failures (${MIN_RETRIES}-${MAX_RETRIES})`)
         .option("--output <format>", "Output format (text|json)", "text")
         .parse(process.argv);
 
@@ -545,12 +641,13 @@ async function runDoctorCommand(): Promise<number> {
     const program = new Command();
     program
         .name("commitgen-cc doctor")
-        .description("Verify Node, repo, config, Ollama, and model availability")
-        .option("-m, --model <name>", "Ollama model name override")
-        .option("--host <url>", "Ollama host override")
+        .description("Verify Node, repo, config, provider, and model availability")
+        .option("--provider <name>", "Model provider override (ollama|openai|heuristic)")
+        .option("-m, --model <name>", "Model name override")
+        .option("--host <url>", "Provider host override")
         .option("--config <path>", "Path to a commitgen config file")
-        .option("--timeout-ms <n>", `Ollama request timeout in milliseconds (${MIN_TIMEOUT_MS}-${MAX_TIMEOUT_MS})`)
-        .option("--retries <n>", `Retry count for transient Ollama failures (${MIN_RETRIES}-${MAX_RETRIES})`)
+        .option("--timeout-ms <n>", `Provider request timeout in milliseconds (${MIN_TIMEOUT_MS}-${MAX_TIMEOUT_MS})`)
+        .option("--retries <n>", `Retry count for transient provider failures (${MIN_RETRIES}-${MAX_RETRIES})`)
         .parse(getSubcommandArgv("doctor"));
 
     try {
@@ -0,0 +1,55 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { globToRegExp } from "./glob.js";
+
+export type CodeownersRule = {
+    pattern: string;
+    owners: string[];
+    regex: RegExp;
+};
+
+const CODEOWNERS_PATHS = [".github/CODEOWNERS", "CODEOWNERS", "docs/CODEOWNERS"];
+
+export function parseCodeowners(contents: string): CodeownersRule[] {
+    const rules: CodeownersRule[] = [];
+    for (const rawLine of contents.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith("#")) continue;
+
+        const [pattern, ...rest] = line.split(/\s+/);
+        const commentIndex = rest.findIndex((token) => token.startsWith("#"));
+        const owners = commentIndex === -1 ? rest : rest.slice(0, commentIndex);
+        rules.push({ pattern, owners, regex: globToRegExp(pattern.replace(/\\#/g, "#")) });
+    }
+    return rules;
+}
+
+export async function loadCodeowners(repoRoot: string): Promise<CodeownersRule[]> {
+    for (const path of CODEOWNERS_PATHS) {
+        try {
+            return parseCodeowners(await readFile(join(repoRoot, path), "utf8"));
+        } catch {
+            continue;
+        }
+    }
+    return [];
+}
+
+export function findFileOwners(file: string, rules: CodeownersRule[]): string[] {
+    for (let index = rules.length - 1; index >= 0; index -= 1) {
+        if (rules[index].regex.test(file)) return rules[index].owners;
+    }
+    return [];
+}
+
+export function collectOwners(files: string[], rules: CodeownersRule[]): string[] {
+    const counts = new Map<string, number>();
+    for (const file of files) {
+        for (const owner of findFileOwners(file, rules)) {
+            counts.set(owner, (counts.get(owner) ?? 0) + 1);
+        }
+    }
+    return [...counts.entries()]
+        .sort((left, right) => right[1] - left[1] || left[0].localeCompare(right[0]))
+        .map(([owner]) => owner);
+}
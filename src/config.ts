@@ -1,10 +1,27 @@
 import { access, readFile } from "node:fs/promises";
 import { constants as fsConstants } from "node:fs";
 import { join, resolve } from "node:path";
+import { findGlobError, parseIgnoreFile } from "./glob.js";
 import { isAllowedType, type AllowedType } from "./validation.js";
+import {
+    MAX_NUM_CTX,
+    MAX_SEED,
+    MAX_TEMPERATURE,
+    MAX_TOP_P,
+    MIN_NUM_CTX,
+    MIN_SEED,
+    MIN_TEMPERATURE,
+    MIN_TOP_P,
+    mergeModelOptions,
+    MODEL_OPTION_KEYS,
+    type ModelOptions
+} from "./model-options.js";
 import type { HookMode } from "./policy.js";
+import { isProviderName, PROVIDER_NAMES, type ProviderName } from "./provider.js";
 
 export const DEFAULT_CONFIG_FILE = ".commitgen.json";
+export const DEFAULT_IGNORE_FILE = ".commitgenignore";
+export const DEFAULT_PROVIDER: ProviderName = "ollama";
 export const DEFAULT_MODEL = "gpt-oss:120b-cloud";
 export const DEFAULT_HOST = "http://localhost:11434";
 export const DEFAULT_MAX_CHARS = 16000;
@@ -13,23 +30,100 @@ export const DEFAULT_RETRIES = 2;
 export const DEFAULT_TICKET_PATTERN = "([A-Z][A-Z0-9]+-\\d+)";
 export const DEFAULT_HISTORY_ENABLED = true;
 export const DEFAULT_HISTORY_SAMPLE_SIZE = 5;
+export const DEFAULT_CONCURRENCY = 1;
+export const DEFAULT_HEURISTIC_FALLBACK = false;
+export const DEFAULT_STRATEGY: GenerationStrategy = "auto";
+export const DEFAULT_MAP_REDUCE_FACTOR = 4;
+export const DEFAULT_BLOCK_ON_SECRETS = false;
+export const DEFAULT_WORKSPACE_SCOPE: WorkspaceScopeRule = "join";
+export const DEFAULT_HISTORY_SELECTION: HistorySelection = "relevant";
+
+export const DEFAULT_PROMPT_EXCLUDE = [
+    "package-lock.json",
+    "npm-shrinkwrap.json",
+    "yarn.lock",
+    "pnpm-lock.yaml",
+    "bun.lock",
+    "bun.lockb",
+    "Cargo.lock",
+    "Gemfile.lock",
+    "composer.lock",
+    "poetry.lock",
+    "Pipfile.lock",
+    "uv.lock",
+    "go.sum",
+    "dist/",
+    "vendor/",
+    "node_modules/",
+    "*.min.js",
+    "*.min.css",
+    "*.map",
+    "*.png",
+    "*.jpg",
+    "*.jpeg",
+    "*.gif",
+    "*.webp",
+    "*.ico",
+    "*.pdf",
+    "*.zip",
+    "*.gz",
+    "*.tgz",
+    "*.jar",
+    "*.woff",
+    "*.woff2",
+    "*.ttf",
+    "*.otf",
+    "*.eot",
+    "*.wasm",
+    "*.exe",
+    "*.dll",
+    "*.so",
+    "*.dylib"
+];
+
+export type GenerationStrategy = "auto" | "direct" | "map-reduce";
+
+export const GENERATION_STRATEGIES: GenerationStrategy[] = ["auto", "direct", "map-reduce"];
+
+export type WorkspaceScopeRule = "join" | "multi";
+
+export const WORKSPACE_SCOPE_RULES: WorkspaceScopeRule[] = ["join", "multi"];
+
+export type HistorySelection = "recent" | "relevant";
+
+export const HISTORY_SELECTIONS: HistorySelection[] = ["recent", "relevant"];
+
+export type ScopeMapEntry = string | { scope: string; priority: number };
 
 export type RepoConfig = {
-    model?: string;
+    provider?: ProviderName;
+    model?: string | string[];
     host?: string;
+    modelOptions?: ModelOptions;
+    heuristicFallback?: boolean;
     maxChars?: number;
+    promptExclude?: string[];
+    redactPatterns?: string[];
+    blockOnSecrets?: boolean;
+    strategy?: GenerationStrategy;
+    mapReduceFactor?: number;
+    concurrency?: number;
     defaultScope?: string;
     scopes?: string[];
     ticketPattern?: string;
     historyEnabled?: boolean;
     historySampleSize?: number;
+    historySelection?: HistorySelection;
     hookMode?: HookMode;
     requireTicket?: boolean;
     allowedTypes?: AllowedType[];
     requiredScopes?: string[];
-    scopeMap?: Record<string, string>;
+    scopeMap?: Record<string, ScopeMapEntry>;
+    ownerScopes?: Record<string, string>;
+    workspaceScope?: WorkspaceScopeRule;
     subjectMaxLength?: number;
     bodyRequiredTypes?: AllowedType[];
+    requireBreakingFooter?: boolean;
 };
 
 function isRecord(value: unknown): value is Record<string, unknown> {
@@ -104,6 +198,16 @@ function expectOptionalStringArray(
     });
 }
 
+function expectOptionalModelList(
+    value: unknown
+): string[] | undefined {
+    const models = expectOptionalStringArray(value, "model");
+    if (models && models.length === 0) {
+        throw new Error('Config field "model" must list at least one model.');
+    }
+    return models;
+}
+
 function expectOptionalAllowedTypeArray(
     value: unknown,
     key: keyof RepoConfig
@@ -130,50 +234,203 @@ function expectOptionalHookMode(
     return value;
 }
 
+function expectOptionalProvider(
+    value: unknown
+): ProviderName | undefined {
+    if (value === undefined) return undefined;
+    const normalized = typeof value === "string" ? value.trim().toLowerCase() : "";
+    if (!isProviderName(normalized)) {
+        throw new Error(`Config field "provider" must be one of: ${PROVIDER_NAMES.join(", ")}.`);
+    }
+    return normalized;
+}
+
+export function isGenerationStrategy(value: string): value is GenerationStrategy {
+    return GENERATION_STRATEGIES.includes(value as GenerationStrategy);
+}
+
+function expectOptionalStrategy(
+    value: unknown
+): GenerationStrategy | undefined {
+    if (value === undefined) return undefined;
+    const normalized = typeof value === "string" ? value.trim().toLowerCase() : "";
+    if (!isGenerationStrategy(normalized)) {
+        throw new Error(`Config field "strategy" must be one of: ${GENERATION_STRATEGIES.join(", ")}.`);
+    }
+    return normalized;
+}
+
+export function isWorkspaceScopeRule(value: string): value is WorkspaceScopeRule {
+    return WORKSPACE_SCOPE_RULES.includes(value as WorkspaceScopeRule);
+}
+
+function expectOptionalWorkspaceScope(
+    value: unknown
+): WorkspaceScopeRule | undefined {
+    if (value === undefined) return undefined;
+    const normalized = typeof value === "string" ? value.trim().toLowerCase() : "";
+    if (!isWorkspaceScopeRule(normalized)) {
+        throw new Error(`Config field "workspaceScope" must be one of: ${WORKSPACE_SCOPE_RULES.join(", ")}.`);
+    }
+    return normalized;
+}
+
+export function isHistorySelection(value: string): value is HistorySelection {
+    return HISTORY_SELECTIONS.includes(value as HistorySelection);
+}
+
+function expectOptionalHistorySelection(
+    value: unknown
+): HistorySelection | undefined {
+    if (value === undefined) return undefined;
+    const normalized = typeof value === "string" ? value.trim().toLowerCase() : "";
+    if (!isHistorySelection(normalized)) {
+        throw new Error(`Config field "historySelection" must be one of: ${HISTORY_SELECTIONS.join(", ")}.`);
+    }
+    return normalized;
+}
+
+function expectModelOptionNumber(
+    value: unknown,
+    key: keyof ModelOptions,
+    min: number,
+    max: number,
+    integer: boolean
+): number | undefined {
+    if (value === undefined) return undefined;
+    if (typeof value !== "number" || !Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+        throw new Error(`Config field "modelOptions.${key}" must be ${integer ? "an integer" : "a number"}.`);
+    }
+    if (value < min || value > max) {
+        throw new Error(`Config field "modelOptions.${key}" must be between ${min} and ${max}.`);
+    }
+    return value;
+}
+
+function expectOptionalModelOptions(
+    value: unknown
+): ModelOptions | undefined {
+    if (value === undefined) return undefined;
+    if (!isRecord(value)) {
+        throw new Error('Config field "modelOptions" must be an object.');
+    }
+
+    for (const key of Object.keys(value)) {
+        if (!(MODEL_OPTION_KEYS as readonly string[]).includes(key)) {
+            throw new Error(`Config field "modelOptions" has unknown option "${key}". Use: ${MODEL_OPTION_KEYS.join(", ")}.`);
+        }
+    }
+
+    return mergeModelOptions({
+        temperature: expectModelOptionNumber(value.temperature, "temperature", MIN_TEMPERATURE, MAX_TEMPERATURE, false),
+        seed: expectModelOptionNumber(value.seed, "seed", MIN_SEED, MAX_SEED, true),
+        numCtx: expectModelOptionNumber(value.numCtx, "numCtx", MIN_NUM_CTX, MAX_NUM_CTX, true),
+        topP: expectModelOptionNumber(value.topP, "topP", MIN_TOP_P, MAX_TOP_P, false)
+    });
+}
+
+export function getScopeMapScope(entry: ScopeMapEntry): string {
+    return typeof entry === "string" ? entry : entry.scope;
+}
+
 function expectOptionalScopeMap(
     value: unknown
-): Record<string, string> | undefined {
+): Record<string, ScopeMapEntry> | undefined {
     if (value === undefined) return undefined;
     if (!isRecord(value)) {
         throw new Error('Config field "scopeMap" must be an object of path-to-scope mappings.');
     }
 
-    const scopeMap: Record<string, string> = {};
-    for (const [rawPath, rawScope] of Object.entries(value)) {
+    const scopeMap: Record<string, ScopeMapEntry> = {};
+    for (const [rawPath, rawEntry] of Object.entries(value)) {
         const path = rawPath.trim();
         if (!path) {
             throw new Error('Config field "scopeMap" must not contain empty paths.');
         }
-        if (typeof rawScope !== "string" || rawScope.trim().length === 0) {
+        const globError = findGlobError(path);
+        if (globError) {
+            throw new Error(`Config field "scopeMap" has an invalid glob "${rawPath}": ${globError}.`);
+        }
+
+        if (isRecord(rawEntry)) {
+            const { scope, priority = 0 } = rawEntry;
+            if (typeof scope !== "string" || scope.trim().length === 0) {
+                throw new Error(`Config field "scopeMap" must give "${rawPath}" a non-empty "scope".`);
+            }
+            if (typeof priority !== "number" || !Number.isInteger(priority)) {
+                throw new Error(`Config field "scopeMap" must give "${rawPath}" an integer "priority".`);
+            }
+            scopeMap[path] = { scope: scope.trim(), priority };
+            continue;
+        }
+        if (typeof rawEntry !== "string" || rawEntry.trim().length === 0) {
             throw new Error(`Config field "scopeMap" must map "${rawPath}" to a non-empty string.`);
         }
-        scopeMap[path] = rawScope.trim();
+        scopeMap[path] = rawEntry.trim();
     }
 
     return scopeMap;
 }
 
+function expectOptionalOwnerScopes(
+    value: unknown
+): Record<string, string> | undefined {
+    if (value === undefined) return undefined;
+    if (!isRecord(value)) {
+        throw new Error('Config field "ownerScopes" must be an object of owner-to-scope mappings.');
+    }
+
+    const ownerScopes: Record<string, string> = {};
+    for (const [rawOwner, rawScope] of Object.entries(value)) {
+        const owner = rawOwner.trim();
+        if (!owner) {
+            throw new Error('Config field "ownerScopes" must not contain empty owners.');
+        }
+        if (typeof rawScope !== "string" || rawScope.trim().length === 0) {
+            throw new Error(`Config field "ownerScopes" must map "${rawOwner}" to a non-empty string.`);
+        }
+        ownerScopes[owner] = rawScope.trim();
+    }
+
+    return ownerScopes;
+}
+
 function parseRepoConfig(input: unknown): RepoConfig {
     if (!isRecord(input)) {
         throw new Error("Config file must contain a JSON object.");
     }
 
     const config: RepoConfig = {
-        model: expectOptionalString(input.model, "model"),
+        provider: expectOptionalProvider(input.provider),
+        model: Array.isArray(input.model)
+            ? expectOptionalModelList(input.model)
+            : expectOptionalString(input.model, "model"),
         host: expectOptionalString(input.host, "host"),
+        modelOptions: expectOptionalModelOptions(input.modelOptions),
+        heuristicFallback: expectOptionalBoolean(input.heuristicFallback, "heuristicFallback"),
         maxChars: expectOptionalInteger(input.maxChars, "maxChars"),
+        promptExclude: expectOptionalStringArray(input.promptExclude, "promptExclude"),
+        redactPatterns: expectOptionalStringArray(input.redactPatterns, "redactPatterns"),
+        blockOnSecrets: expectOptionalBoolean(input.blockOnSecrets, "blockOnSecrets"),
+        strategy: expectOptionalStrategy(input.strategy),
+        mapReduceFactor: expectOptionalInteger(input.mapReduceFactor, "mapReduceFactor"),
+        concurrency: expectOptionalInteger(input.concurrency, "concurrency"),
         defaultScope: expectOptionalString(input.defaultScope, "defaultScope"),
         scopes: expectOptionalStringArray(input.scopes, "scopes"),
         ticketPattern: expectOptionalString(input.ticketPattern, "ticketPattern"),
         historyEnabled: expectOptionalBoolean(input.historyEnabled, "historyEnabled"),
         historySampleSize: expectOptionalInteger(input.historySampleSize, "historySampleSize"),
+        historySelection: expectOptionalHistorySelection(input.historySelection),
         hookMode: expectOptionalHookMode(input.hookMode),
         requireTicket: expectOptionalBoolean(input.requireTicket, "requireTicket"),
         allowedTypes: expectOptionalAllowedTypeArray(input.allowedTypes, "allowedTypes"),
         requiredScopes: expectOptionalStringArray(input.requiredScopes, "requiredScopes"),
         scopeMap: expectOptionalScopeMap(input.scopeMap),
+        ownerScopes: expectOptionalOwnerScopes(input.ownerScopes),
+        workspaceScope: expectOptionalWorkspaceScope(input.workspaceScope),
         subjectMaxLength: expectOptionalPositiveInteger(input.subjectMaxLength, "subjectMaxLength"),
-        bodyRequiredTypes: expectOptionalAllowedTypeArray(input.bodyRequiredTypes, "bodyRequiredTypes")
+        bodyRequiredTypes: expectOptionalAllowedTypeArray(input.bodyRequiredTypes, "bodyRequiredTypes"),
+        requireBreakingFooter: expectOptionalBoolean(input.requireBreakingFooter, "requireBreakingFooter")
     };
 
     if (config.ticketPattern) {
@@ -185,6 +442,22 @@ function parseRepoConfig(input: unknown): RepoConfig {
         }
     }
 
+    for (const pattern of config.redactPatterns ?? []) {
+        try {
+            new RegExp(pattern, "g");
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : String(error);
+            throw new Error(`Config field "redactPatterns" contains an invalid regular expression: ${message}`);
+        }
+    }
+
+    for (const pattern of config.promptExclude ?? []) {
+        const globError = findGlobError(pattern);
+        if (globError) {
+            throw new Error(`Config field "promptExclude" has an invalid glob "${pattern}": ${globError}.`);
+        }
+    }
+
     return config;
 }
 
@@ -197,7 +470,33 @@ async function fileExists(path: string): Promise<boolean> {
     }
 }
 
-export async function loadRepoConfig(repoRoot: string, configPath: string | null): Promise<RepoConfig> {
+async function loadIgnoreFile(repoRoot: string): Promise<string[]> {
+    const targetPath = join(repoRoot, DEFAULT_IGNORE_FILE);
+    if (!(await fileExists(targetPath))) return [];
+
+    let patterns: string[];
+    try {
+        patterns = parseIgnoreFile(await readFile(targetPath, "utf8"));
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to read ignore file "${targetPath}": ${message}`);
+    }
+
+    for (const pattern of patterns) {
+        const globError = findGlobError(pattern);
+        if (globError) {
+            throw new Error(`Ignore file "${targetPath}" has an invalid glob "${pattern}": ${globError}.`);
+        }
+    }
+    return patterns;
+}
+
+function withIgnoreFile(config: RepoConfig, ignored: string[]): RepoConfig {
+    if (ignored.length === 0) return config;
+    return { ...config, promptExclude: [...(config.promptExclude ?? []), ...ignored] };
+}
+
+async function loadConfigFile(repoRoot: string, configPath: string | null): Promise<RepoConfig> {
     const targetPath = configPath
         ? resolve(process.cwd(), configPath)
         : join(repoRoot, DEFAULT_CONFIG_FILE);
@@ -225,3 +524,8 @@ export async function loadRepoConfig(repoRoot: string, configPath: string | null
         throw new Error(`Invalid config file "${targetPath}": ${message}`);
     }
 }
+
+export async function loadRepoConfig(repoRoot: string, configPath: string | null): Promise<RepoConfig> {
+    const config = await loadConfigFile(repoRoot, configPath);
+    return withIgnoreFile(config, await loadIgnoreFile(repoRoot));
+}
@@ -1,3 +1,27 @@
+import { findFileOwners, type CodeownersRule } from "./codeowners.js";
+import type { ScopeMapEntry, WorkspaceScopeRule } from "./config.js";
+import { globToRegExp } from "./glob.js";
+import { suggestScopeFromHistory, type PathHistoryEntry } from "./path-history.js";
+import { findOwningPackage, type WorkspacePackage } from "./workspaces.js";
+
+export const MULTI_PACKAGE_SCOPE = "multi";
+
+export type ScopeInference = {
+    scope: string;
+    source: "changed-files" | "codeowners" | "history";
+    confidence: number | null;
+    reasons: string[];
+};
+
+export type ScopeSources = {
+    scopeMap: Record<string, ScopeMapEntry>;
+    codeowners: CodeownersRule[];
+    ownerScopes: Record<string, string>;
+    packages: WorkspacePackage[];
+    workspaceScope: WorkspaceScopeRule;
+    pathHistory: PathHistoryEntry[];
+};
+
 const NOISE_DIRS = new Set([
     "src", "lib", "dist",
     "tests", "test", "__tests__", "__test__",
@@ -11,25 +35,47 @@ function normalizePathPrefix(value: string): string {
     return value.trim().replace(/^\.?\//, "").replace(/\/+$/, "");
 }
 
-function findMappedScope(
-    file: string,
-    scopeMap: Record<string, string>
-): string | null {
+type ScopeMapRule = {
+    scope: string;
+    priority: number;
+    negated: boolean;
+    specificity: number;
+    matches: (file: string) => boolean;
+};
+
+function compileScopeMap(scopeMap: Record<string, ScopeMapEntry>): ScopeMapRule[] {
+    return Object.entries(scopeMap).flatMap(([rawPattern, entry]) => {
+        const negated = rawPattern.startsWith("!");
+        const pattern = (negated ? rawPattern.slice(1) : rawPattern).trim();
+        const prefix = normalizePathPrefix(pattern);
+        if (!prefix) return [];
+
+        const regex = /[*?]/.test(pattern) ? globToRegExp(pattern) : null;
+        return [{
+            scope: typeof entry === "string" ? entry : entry.scope,
+            priority: typeof entry === "string" ? 0 : entry.priority,
+            negated,
+            specificity: prefix.replace(/[*?]/g, "").length,
+            matches: regex
+                ? (file: string) => regex.test(file)
+                : (file: string) => file === prefix || file.startsWith(`${prefix}/`)
+        }];
+    });
+}
+
+function findMappedScope(file: string, rules: ScopeMapRule[]): string | null {
     const normalizedFile = normalizePathPrefix(file);
-    let bestMatch: string | null = null;
-    let bestMatchRaw: string | null = null;
-
-    for (const rawPrefix of Object.keys(scopeMap)) {
-        const prefix = normalizePathPrefix(rawPrefix);
-        if (!prefix) continue;
-        if (normalizedFile !== prefix && !normalizedFile.startsWith(`${prefix}/`)) continue;
-        if (!bestMatch || prefix.length > bestMatch.length) {
-            bestMatch = prefix;
-            bestMatchRaw = rawPrefix;
+    const excluded = new Set(rules.filter((rule) => rule.negated && rule.matches(normalizedFile)).map((rule) => rule.scope));
+    let best: ScopeMapRule | null = null;
+
+    for (const rule of rules) {
+        if (rule.negated || excluded.has(rule.scope) || !rule.matches(normalizedFile)) continue;
+        if (!best || rule.priority > best.priority || (rule.priority === best.priority && rule.specificity > best.specificity)) {
+            best = rule;
         }
     }
 
-    return bestMatchRaw ? scopeMap[bestMatchRaw] ?? null : null;
+    return best?.scope ?? null;
 }
 
 function extractFileStem(fileName: string): string | null {
@@ -50,19 +96,66 @@ function pickBest(counts: Map<string, number>, total: number, threshold: number)
     return best && bestCount / total >= threshold ? best : null;
 }
 
-export function inferScopeFromFiles(files: string[], scopeMap: Record<string, string> = {}): string | null {
+export function inferWorkspaceScope(files: string[], packages: WorkspacePackage[], rule: WorkspaceScopeRule): string | null {
+    const counts = new Map<string, number>();
+    for (const file of files) {
+        const owner = findOwningPackage(normalizePathPrefix(file), packages);
+        if (owner) counts.set(owner.name, (counts.get(owner.name) ?? 0) + 1);
+    }
+
+    if (counts.size <= 1) return [...counts.keys()][0] ?? null;
+    if (rule === "multi") return MULTI_PACKAGE_SCOPE;
+    return [...counts.entries()]
+        .sort((left, right) => right[1] - left[1] || left[0].localeCompare(right[0]))
+        .map(([name]) => name)
+        .join(",");
+}
+
+export function inferMappedScope(files: string[], scopeMap: Record<string, ScopeMapEntry>): string | null {
+    if (files.length === 0 || Object.keys(scopeMap).length === 0) return null;
+
+    const rules = compileScopeMap(scopeMap);
+    const mappedCounts = new Map<string, number>();
+    for (const file of files) {
+        const scope = findMappedScope(file, rules);
+        if (!scope) continue;
+        mappedCounts.set(scope, (mappedCounts.get(scope) ?? 0) + 1);
+    }
+
+    return pickBest(mappedCounts, files.length, 0.6);
+}
+
+export function inferScopeFromOwners(
+    files: string[],
+    rules: CodeownersRule[],
+    ownerScopes: Record<string, string>
+): string | null {
+    if (files.length === 0 || rules.length === 0 || Object.keys(ownerScopes).length === 0) return null;
+
+    const ownerCounts = new Map<string, number>();
+    for (const file of files) {
+        const owner = findFileOwners(normalizePathPrefix(file), rules).find((entry) => ownerScopes[entry]);
+        if (!owner) continue;
+        ownerCounts.set(ownerScopes[owner], (ownerCounts.get(ownerScopes[owner]) ?? 0) + 1);
+    }
+
+    return pickBest(ownerCounts, files.length, 0.6);
+}
+
+export function inferScopeFromFiles(
+    files: string[],
+    scopeMap: Record<string, ScopeMapEntry> = {},
+    packages: WorkspacePackage[] = [],
+    workspaceScope: WorkspaceScopeRule = "join"
+): string | null {
     if (files.length === 0) return null;
 
-    if (Object.keys(scopeMap).length > 0) {
-        const mappedCounts = new Map<string, number>();
-        for (const file of files) {
-            const scope = findMappedScope(file, scopeMap);
-            if (!scope) continue;
-            mappedCounts.set(scope, (mappedCounts.get(scope) ?? 0) + 1);
-        }
+    const mapped = inferMappedScope(files, scopeMap);
+    if (mapped) return mapped;
 
-        const best = pickBest(mappedCounts, files.length, 0.6);
-        if (best) return best;
+    if (packages.length > 0) {
+        const scope = inferWorkspaceScope(files, packages, workspaceScope);
+        if (scope) return scope;
     }
 
     const stemCounts = new Map<string, number>();
@@ -96,6 +189,24 @@ export function inferScopeFromFiles(files: string[], scopeMap: Record<string, st
     return null;
 }
 
+function ruleScope(scope: string | null, source: ScopeInference["source"]): ScopeInference | null {
+    return scope ? { scope, source, confidence: null, reasons: [] } : null;
+}
+
+// scopeMap, then CODEOWNERS, then workspace packages, then scopes learned from past commits, then path heuristics.
+export function inferScope(files: string[], sources: ScopeSources): ScopeInference | null {
+    const learned = () => {
+        const suggestion = suggestScopeFromHistory(files, sources.pathHistory);
+        return suggestion ? { ...suggestion, source: "history" as const } : null;
+    };
+
+    return ruleScope(inferMappedScope(files, sources.scopeMap), "changed-files")
+        ?? ruleScope(inferScopeFromOwners(files, sources.codeowners, sources.ownerScopes), "codeowners")
+        ?? ruleScope(inferWorkspaceScope(files, sources.packages, sources.workspaceScope), "changed-files")
+        ?? learned()
+        ?? ruleScope(inferScopeFromFiles(files), "changed-files");
+}
+
 export function inferTicketFromBranch(
     branch: string | null,
     pattern: string
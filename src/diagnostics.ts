@@ -1,6 +1,9 @@
+import type { HistorySelection } from "./config.js";
 import { extractTicketFromMessage, lintCommitMessage } from "./policy.js";
+import { DEFAULT_PROMPT_HISTORY_EXAMPLES } from "./prompt.js";
 import type { RankedCandidate, ScoreBreakdown, ScoreContext } from "./ranking.js";
 import { getScoreBreakdown, parseRankedMessage } from "./ranking.js";
+import { getActiveModel, getRequestedModel } from "./model-fallback.js";
 import { normalizeScopeName } from "./util.js";
 import type { RepoContext, ResolvedWorkflowOptions } from "./workflow.js";
 
@@ -8,6 +11,8 @@ export type DiagnosticSource =
     | "cli"
     | "diff"
     | "changed-files"
+    | "codeowners"
+    | "history"
     | "default-config"
     | "branch"
     | "message"
@@ -20,19 +25,44 @@ export type WorkflowDiagnostics = {
 };
 
 export type ContextDiagnostics = {
+    model: {
+        value: string;
+        requested: string;
+    };
     expectedType: {
         value: string | null;
         source: DiagnosticSource;
+        confidence: number | null;
+        reasons: string[];
     };
     scope: {
         suggested: string | null;
         effective: string | null;
         source: DiagnosticSource;
+        confidence: number | null;
+        reasons: string[];
+        owners: string[];
     };
     ticket: {
         value: string | null;
         source: DiagnosticSource;
     };
+    tokens: {
+        contextWindow: number | null;
+        estimatedPrompt: number;
+        estimatedDiff: number;
+        diffChars: number;
+        maxDiffChars: number;
+        truncated: boolean;
+    };
+    redactions: Array<{
+        file: string;
+        count: number;
+    }>;
+    examples: {
+        selection: HistorySelection;
+        subjects: string[];
+    };
 };
 
 export type CandidateDiagnostics = {
@@ -54,6 +84,7 @@ export type CandidateDiagnostics = {
         ok: boolean;
         errors: string[];
     };
+    warnings: string[];
     ranking: ScoreBreakdown;
 };
 
@@ -62,8 +93,7 @@ function getContextExpectedTypeSource(
     options: ResolvedWorkflowOptions
 ): DiagnosticSource {
     if (options.type) return "cli";
-    if (context.expectedType) return "diff";
-    return "none";
+    return context.typeInference?.source ?? "none";
 }
 
 function getContextScopeSource(
@@ -71,7 +101,7 @@ function getContextScopeSource(
     options: ResolvedWorkflowOptions
 ): DiagnosticSource {
     if (options.scope) return "cli";
-    if (context.suggestedScope) return "changed-files";
+    if (context.suggestedScope) return context.scopeInference?.source ?? "changed-files";
     if (options.defaultScope) return "default-config";
     return "none";
 }
@@ -92,7 +122,7 @@ function getFinalScopeSource(
 ): DiagnosticSource {
     if (!scope) return "none";
     if (options.scope && scope === options.scope) return "cli";
-    if (context.suggestedScope && scope === context.suggestedScope) return "changed-files";
+    if (context.suggestedScope && scope === context.suggestedScope) return context.scopeInference?.source ?? "changed-files";
     if (!options.scope && options.defaultScope && scope === options.defaultScope) return "default-config";
     return "message";
 }
@@ -120,7 +150,7 @@ function getCandidateValidationErrors(
     return lintCommitMessage(candidate.message, options.policy, options.ticketPattern).errors;
 }
 
-function buildScoreContext(
+export function buildScoreContext(
     context: RepoContext,
     options: ResolvedWorkflowOptions
 ): ScoreContext {
@@ -128,7 +158,13 @@ function buildScoreContext(
         expectedType: context.expectedType,
         expectedScope: context.effectiveScope,
         ticket: context.ticket,
-        subjectMaxLength: options.policy.subjectMaxLength
+        subjectMaxLength: options.policy.subjectMaxLength,
+        touchedSymbols: context.touchedSymbols,
+        evidence: [
+            context.diff,
+            ...(context.diffGroups ?? []).map((group) => group.diff),
+            ...context.files
+        ].join("\n")
     };
 }
 
@@ -165,6 +201,7 @@ export function buildCandidateDiagnostics(
             ok: candidate.validation.ok,
             errors: getCandidateValidationErrors(candidate, options)
         },
+        warnings: candidate.warnings ?? [],
         ranking
     };
 }
@@ -189,18 +226,42 @@ export function buildContextDiagnostics(
     options: ResolvedWorkflowOptions
 ): ContextDiagnostics {
     return {
+        model: {
+            value: getActiveModel(options.modelChain),
+            requested: getRequestedModel(options.modelChain)
+        },
         expectedType: {
             value: context.expectedType,
-            source: getContextExpectedTypeSource(context, options)
+            source: getContextExpectedTypeSource(context, options),
+            confidence: options.type ? null : context.typeInference?.confidence ?? null,
+            reasons: options.type ? [] : context.typeInference?.reasons ?? []
         },
         scope: {
             suggested: context.suggestedScope,
             effective: context.effectiveScope,
-            source: getContextScopeSource(context, options)
+            source: getContextScopeSource(context, options),
+            confidence: options.scope ? null : context.scopeInference?.confidence ?? null,
+            reasons: options.scope ? [] : context.scopeInference?.reasons ?? [],
+            owners: context.owners
         },
         ticket: {
             value: context.ticket,
             source: getContextTicketSource(context, options)
+        },
+        tokens: {
+            contextWindow: context.promptBudget.contextTokens,
+            estimatedPrompt: context.promptBudget.promptTokens,
+            estimatedDiff: context.promptBudget.diffTokens,
+            diffChars: context.promptBudget.diffChars,
+            maxDiffChars: context.promptBudget.maxDiffChars,
+            truncated: context.promptBudget.truncated
+        },
+        redactions: Object.entries(context.redactions).map(([file, count]) => ({ file, count })),
+        examples: {
+            selection: options.historySelection,
+            subjects: context.recentExamples
+                .slice(0, DEFAULT_PROMPT_HISTORY_EXAMPLES)
+                .map((message) => message.split("\n")[0].trim())
         }
     };
 }
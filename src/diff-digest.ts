@@ -0,0 +1,210 @@
+import { clampDiff } from "./util.js";
+
+export type DiffFileSection = {
+    path: string;
+    header: string[];
+    hunks: string[][];
+    insertions: number;
+    deletions: number;
+    size: number;
+};
+
+export type DiffDigest = {
+    text: string;
+    truncated: boolean;
+};
+
+export type DiffGroup = {
+    files: string[];
+    diff: string;
+};
+
+export const MAX_DIFF_GROUPS = 12;
+
+const MAX_DIFFSTAT_FILES = 50;
+const MARKER_RESERVE_CHARS = 40;
+
+function isChangeLine(line: string): boolean {
+    return (line.startsWith("+") && !line.startsWith("+++")) || (line.startsWith("-") && !line.startsWith("---"));
+}
+
+function countChanges(lines: string[]): { insertions: number; deletions: number } {
+    let insertions = 0;
+    let deletions = 0;
+    for (const line of lines) {
+        if (!isChangeLine(line)) continue;
+        if (line.startsWith("+")) insertions += 1;
+        else deletions += 1;
+    }
+    return { insertions, deletions };
+}
+
+function joinedLength(lines: string[]): number {
+    return lines.reduce((total, line) => total + line.length + 1, 0);
+}
+
+function parseSection(chunk: string): DiffFileSection | null {
+    const lines = `diff --git ${chunk}`.replace(/\n$/, "").split("\n");
+    const path = lines[0].match(/^diff --git a\/(.+?) b\/(.+)$/)?.[2]?.trim();
+    if (!path) return null;
+
+    const header: string[] = [];
+    const hunks: string[][] = [];
+    for (const line of lines) {
+        if (line.startsWith("@@")) {
+            hunks.push([line]);
+        } else if (hunks.length > 0) {
+            hunks[hunks.length - 1].push(line);
+        } else {
+            header.push(line);
+        }
+    }
+
+    const changes = countChanges(hunks.flat());
+    return {
+        path,
+        header,
+        hunks,
+        ...changes,
+        size: joinedLength(lines)
+    };
+}
+
+export function parseDiffSections(diff: string): DiffFileSection[] {
+    return diff
+        .split(/^diff --git /m)
+        .slice(1)
+        .map(parseSection)
+        .filter((section): section is DiffFileSection => section !== null);
+}
+
+export function isBinarySection(section: DiffFileSection): boolean {
+    return section.header.some((line) => line.startsWith("Binary files ") || line === "GIT binary patch");
+}
+
+export function excludeDiffFiles(diff: string, isExcluded: (path: string) => boolean): string {
+    return diff
+        .split(/^(?=diff --git )/m)
+        .map((chunk) => {
+            const section = chunk.startsWith("diff --git ") ? parseSection(chunk.slice("diff --git ".length)) : null;
+            if (!section || !(isExcluded(section.path) || isBinarySection(section))) return chunk;
+            const newline = chunk.endsWith("\n") ? "\n" : "";
+            return `${section.header[0]}\n... diff excluded from the prompt (+${section.insertions} -${section.deletions})${newline}`;
+        })
+        .join("");
+}
+
+function buildDiffstat(sections: DiffFileSection[]): string {
+    const insertions = sections.reduce((total, section) => total + section.insertions, 0);
+    const deletions = sections.reduce((total, section) => total + section.deletions, 0);
+    const lines = [
+        `Diffstat: ${sections.length} file${sections.length === 1 ? "" : "s"} changed, +${insertions} -${deletions}`,
+        ...sections.slice(0, MAX_DIFFSTAT_FILES).map((section) => ` ${section.path} | +${section.insertions} -${section.deletions}`)
+    ];
+    if (sections.length > MAX_DIFFSTAT_FILES) {
+        lines.push(` ... and ${sections.length - MAX_DIFFSTAT_FILES} more files`);
+    }
+    return lines.join("\n");
+}
+
+function allocateBudgets(sections: DiffFileSection[], budget: number): number[] {
+    const budgets = new Array<number>(sections.length).fill(0);
+    const order = sections
+        .map((section, index) => ({ size: section.size, index }))
+        .sort((a, b) => a.size - b.size);
+
+    let remaining = Math.max(0, budget);
+    order.forEach(({ size, index }, position) => {
+        const share = Math.floor(remaining / (order.length - position));
+        budgets[index] = Math.min(size, share);
+        remaining -= budgets[index];
+    });
+    return budgets;
+}
+
+function formatMarker(count: number): string {
+    return `... ${count} more line${count === 1 ? "" : "s"} changed`;
+}
+
+function renderSection(section: DiffFileSection, budget: number): string[] {
+    const all = [...section.header, ...section.hunks.flat()];
+    if (section.size <= budget) return all;
+
+    const lines = joinedLength(section.header) <= budget ? [...section.header] : [section.header[0]];
+    const limit = budget - MARKER_RESERVE_CHARS;
+    let used = joinedLength(lines);
+    let hunkIndex = 0;
+    let lineIndex = 0;
+
+    for (; hunkIndex < section.hunks.length; hunkIndex += 1) {
+        const hunk = section.hunks[hunkIndex];
+        const hunkSize = joinedLength(hunk);
+        if (used + hunkSize <= limit) {
+            lines.push(...hunk);
+            used += hunkSize;
+            continue;
+        }
+
+        for (; lineIndex < hunk.length && used + hunk[lineIndex].length + 1 <= limit; lineIndex += 1) {
+            lines.push(hunk[lineIndex]);
+            used += hunk[lineIndex].length + 1;
+        }
+        break;
+    }
+
+    const omitted = [
+        ...(section.hunks[hunkIndex]?.slice(lineIndex) ?? []),
+        ...section.hunks.slice(hunkIndex + 1).flat()
+    ].filter(isChangeLine).length;
+    if (omitted > 0) lines.push(formatMarker(omitted));
+    return lines;
+}
+
+export function buildDiffDigest(diff: string, maxChars: number): DiffDigest {
+    const sections = parseDiffSections(diff);
+    if (sections.length === 0) {
+        const text = clampDiff(diff, maxChars);
+        return { text, truncated: text !== diff };
+    }
+
+    const diffstat = buildDiffstat(sections);
+    const budgets = allocateBudgets(sections, maxChars - diffstat.length - 2);
+    const truncated = sections.some((section, index) => section.size > budgets[index]);
+    const body = sections
+        .map((section, index) => renderSection(section, budgets[index]).join("\n"))
+        .join("\n");
+    const text = `${diffstat}\n\n${body}`;
+
+    return text.length <= maxChars
+        ? { text, truncated }
+        : { text: clampDiff(text, maxChars), truncated: true };
+}
+
+function sectionText(section: DiffFileSection): string {
+    return [...section.header, ...section.hunks.flat()].join("\n");
+}
+
+export function buildDiffGroups(diff: string, maxChars: number): DiffGroup[] {
+    const sections = parseDiffSections(diff);
+    if (sections.length === 0) return [{ files: [], diff: buildDiffDigest(diff, maxChars).text }];
+
+    const totalSize = sections.reduce((total, section) => total + section.size, 0);
+    const capacity = Math.max(maxChars, Math.ceil(totalSize / MAX_DIFF_GROUPS));
+    const groups: DiffFileSection[][] = [];
+    let groupSize = 0;
+    for (const section of sections) {
+        const current = groups[groups.length - 1];
+        if (current && (groupSize + section.size <= capacity || groups.length >= MAX_DIFF_GROUPS)) {
+            current.push(section);
+            groupSize += section.size;
+        } else {
+            groups.push([section]);
+            groupSize = section.size;
+        }
+    }
+
+    return groups.map((group) => ({
+        files: group.map((section) => section.path),
+        diff: buildDiffDigest(group.map(sectionText).join("\n"), maxChars).text
+    }));
+}
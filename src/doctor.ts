@@ -8,11 +8,13 @@ import {
 } from "./config.js";
 import { ExitCode } from "./exit-codes.js";
 import { getRepoRoot, isGitRepo } from "./git.js";
-import { ensureLocalModel, listLocalModels } from "./ollama.js";
+import { HEURISTIC_MODEL } from "./heuristic.js";
+import { createModelChain, getActiveModel, runWithModelFallback } from "./model-fallback.js";
+import { createProvider, type ProviderLabel, type ProviderName } from "./provider.js";
 import { resolveWorkflowOptions, type WorkflowOptions } from "./workflow.js";
 
 export type DoctorCheck = {
-    section: "Environment" | "Repository" | "Ollama";
+    section: "Environment" | "Repository" | ProviderLabel;
     name: string;
     ok: boolean;
     detail: string;
@@ -35,6 +37,20 @@ async function configExists(repoRoot: string, configPath: string | null): Promis
     }
 }
 
+function getProviderNextSteps(provider: ProviderName, model: string): { reachability: string; model: string } {
+    if (provider === "openai") {
+        return {
+            reachability: "Start the OpenAI-compatible server, verify `--host`, then rerun `commitgen-cc doctor`.",
+            model: `Load \`${model}\` on the server or change the configured model, then rerun \`commitgen-cc doctor\`.`
+        };
+    }
+
+    return {
+        reachability: "Start Ollama with `ollama serve`, verify `--host`, then rerun `commitgen-cc doctor`.",
+        model: `Run \`ollama pull ${model}\` or change the configured model, then rerun \`commitgen-cc doctor\`.`
+    };
+}
+
 function parseNodeMajor(): number {
     return Number.parseInt(process.versions.node.split(".")[0] ?? "0", 10);
 }
@@ -99,12 +115,32 @@ export async function runDoctor(options: WorkflowOptions): Promise<DoctorResult>
     }
 
     const resolvedOptions = resolveWorkflowOptions(options, repoConfig);
+    const provider = createProvider(resolvedOptions);
+    const nextSteps = getProviderNextSteps(provider.name, resolvedOptions.model);
+    const configuredModels = resolvedOptions.modelChain.models.filter((model) => model !== HEURISTIC_MODEL);
+    const modelChain = configuredModels.length > 0 ? createModelChain(configuredModels) : resolvedOptions.modelChain;
+    checks.push({
+        section: "Repository",
+        name: "Resolved provider",
+        ok: true,
+        detail: provider.name
+    });
     checks.push({
         section: "Repository",
         name: "Resolved model",
         ok: true,
-        detail: resolvedOptions.model || DEFAULT_MODEL
+        detail: modelChain.models.join(", ") || DEFAULT_MODEL
     });
+    if (provider.name !== "heuristic") {
+        checks.push({
+            section: "Repository",
+            name: "Heuristic fallback",
+            ok: true,
+            detail: resolvedOptions.modelChain.models.includes(HEURISTIC_MODEL)
+                ? "Enabled; an offline message is built when the provider is unavailable."
+                : "Disabled."
+        });
+    }
     checks.push({
         section: "Repository",
         name: "Resolved host",
@@ -113,43 +149,45 @@ export async function runDoctor(options: WorkflowOptions): Promise<DoctorResult>
     });
 
     try {
-        const models = await listLocalModels(resolvedOptions.host, Math.min(resolvedOptions.timeoutMs, 5_000));
+        const models = await provider.listModels(Math.min(resolvedOptions.timeoutMs, 5_000));
         checks.push({
-            section: "Ollama",
-            name: "Ollama",
+            section: provider.label,
+            name: provider.label,
             ok: true,
-            detail: `Reachable with ${models.length} local model${models.length === 1 ? "" : "s"}.`
+            detail: `Reachable with ${models.length} ${provider.name === "ollama" ? "local " : ""}model${models.length === 1 ? "" : "s"}.`
         });
     } catch (error: unknown) {
         checks.push({
-            section: "Ollama",
-            name: "Ollama",
+            section: provider.label,
+            name: provider.label,
             ok: false,
             detail: error instanceof Error ? error.message : String(error),
-            nextStep: "Start Ollama with `ollama serve`, verify `--host`, then rerun `commitgen-cc doctor`."
+            nextStep: nextSteps.reachability
         });
         return { ok: false, exitCode: ExitCode.OllamaError, checks };
     }
 
     try {
-        await ensureLocalModel(
-            resolvedOptions.host,
-            resolvedOptions.model,
+        await runWithModelFallback(modelChain, async (model) => await provider.healthCheck(
+            model,
             Math.min(resolvedOptions.timeoutMs, 5_000)
-        );
+        ));
+        const activeModel = getActiveModel(modelChain);
         checks.push({
-            section: "Ollama",
+            section: provider.label,
             name: "Configured model",
             ok: true,
-            detail: resolvedOptions.model
+            detail: activeModel === resolvedOptions.model
+                ? activeModel
+                : `${activeModel} (fallback from ${resolvedOptions.model})`
         });
     } catch (error: unknown) {
         checks.push({
-            section: "Ollama",
+            section: provider.label,
             name: "Configured model",
             ok: false,
             detail: error instanceof Error ? error.message : String(error),
-            nextStep: `Run \`ollama pull ${resolvedOptions.model}\` or change the configured model, then rerun \`commitgen-cc doctor\`.`
+            nextStep: nextSteps.model
         });
         return { ok: false, exitCode: ExitCode.OllamaError, checks };
     }
@@ -1,4 +1,5 @@
 import { execa } from "execa";
+import { parseNameStatus, type StagedChange } from "./staged-changes.js";
 
 function getExitCode(error: unknown): number | null {
     if (!error || typeof error !== "object") return null;
@@ -29,16 +30,13 @@ export async function hasStagedChanges(): Promise<boolean> {
 }
 
 export async function getStagedDiff(): Promise<string> {
-    const { stdout } = await execa("git", ["diff", "--staged", "--"]);
+    const { stdout } = await execa("git", ["diff", "--staged", "--find-renames", "--"]);
     return stdout ?? "";
 }
 
-export async function getStagedFiles(): Promise<string[]> {
-    const { stdout } = await execa("git", ["diff", "--staged", "--name-only", "--"]);
-    return (stdout ?? "")
-        .split("\n")
-        .map((line) => line.trim())
-        .filter((line) => line.length > 0);
+export async function getStagedChanges(): Promise<StagedChange[]> {
+    const { stdout } = await execa("git", ["diff", "--staged", "--name-status", "--find-renames", "-z", "--"]);
+    return parseNameStatus(stdout ?? "");
 }
 
 export async function getRepoRoot(): Promise<string> {
@@ -57,6 +55,28 @@ export async function getCurrentBranch(): Promise<string | null> {
     return branch || null;
 }
 
+export type RecentCommit = {
+    subject: string;
+    files: string[];
+};
+
+export async function getRecentCommits(limit: number): Promise<RecentCommit[]> {
+    let stdout: string;
+    try {
+        ({ stdout } = await execa("git", ["log", `-n${limit}`, "--no-merges", "--name-only", "--format=%x1e%s"]));
+    } catch {
+        return [];
+    }
+
+    return (stdout ?? "")
+        .split("\x1e")
+        .slice(1)
+        .map((chunk) => {
+            const [subject, ...files] = chunk.split("\n");
+            return { subject: subject.trim(), files: files.map((file) => file.trim()).filter(Boolean) };
+        });
+}
+
 export async function gitCommit(message: string, opts: { noVerify?: boolean } = {}): Promise<void> {
     const args = ["commit", "-m", message];
     if (opts.noVerify) args.push("--no-verify");
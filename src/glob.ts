@@ -0,0 +1,65 @@
+export type PathMatcher = (path: string) => boolean;
+
+function escapeRegExpChar(char: string): string {
+    return /[\\^$.*+?()[\]{}|]/.test(char) ? `\\${char}` : char;
+}
+
+function translateGlob(glob: string): string {
+    let source = "";
+    for (let index = 0; index < glob.length; index += 1) {
+        const char = glob[index];
+        if (char === "*" && glob[index + 1] === "*") {
+            const slashAfter = glob[index + 2] === "/";
+            source += slashAfter ? "(?:.*/)?" : ".*";
+            index += slashAfter ? 2 : 1;
+        } else if (char === "*") {
+            source += "[^/]*";
+        } else if (char === "?") {
+            source += "[^/]";
+        } else {
+            source += escapeRegExpChar(char);
+        }
+    }
+    return source;
+}
+
+export function globToRegExp(pattern: string): RegExp {
+    const directoryOnly = pattern.endsWith("/");
+    const trimmed = pattern.replace(/\/+$/, "");
+    const anchored = trimmed.startsWith("/") || trimmed.slice(0, -1).includes("/");
+    const body = translateGlob(trimmed.replace(/^\//, ""));
+    const prefix = anchored ? "" : "(?:.*/)?";
+    const suffix = directoryOnly ? "/.*" : "(?:/.*)?";
+    return new RegExp(`^${prefix}${body}${suffix}$`);
+}
+
+export function findGlobError(pattern: string): string | null {
+    const body = pattern.startsWith("!") ? pattern.slice(1) : pattern;
+    if (!body.replace(/\//g, "").trim()) return "it must name a path";
+    if (/[[\]{}]/.test(body)) return "character classes and braces are not supported";
+    if (/\*{3,}/.test(body)) return "use ** to match any depth";
+    if (/[^/]\*\*|\*\*[^/]/.test(body)) return "** must be a whole path segment";
+    return null;
+}
+
+export function createPathMatcher(patterns: string[]): PathMatcher {
+    const rules = patterns.map((pattern) => {
+        const negated = pattern.startsWith("!");
+        return { negated, regex: globToRegExp(negated ? pattern.slice(1) : pattern) };
+    });
+
+    return (path) => {
+        let matched = false;
+        for (const rule of rules) {
+            if (rule.regex.test(path)) matched = !rule.negated;
+        }
+        return matched;
+    };
+}
+
+export function parseIgnoreFile(contents: string): string[] {
+    return contents
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0 && !line.startsWith("#"));
+}
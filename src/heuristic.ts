@@ -0,0 +1,173 @@
+import { inferScopeFromFiles } from "./context.js";
+import type { ProviderChatRequest } from "./provider.js";
+import { ProviderError } from "./provider-http.js";
+import { inferTypeFromDiff, type AllowedType } from "./validation.js";
+
+export const HEURISTIC_MODEL = "heuristic";
+export const HEURISTIC_FALLBACK_NOTICE = "The model provider is unavailable, so this message was built offline from the staged diff.";
+
+export type HeuristicChanges = {
+    diff: string;
+    files: string[];
+    type: AllowedType | null;
+    scope: string | null;
+    allowedTypes: AllowedType[];
+};
+
+type FileStatus = "added" | "deleted" | "renamed" | "modified";
+
+type FileChange = {
+    path: string;
+    status: FileStatus;
+    insertions: number;
+    deletions: number;
+    headings: string[];
+    symbols: string[];
+};
+
+const MAX_TARGET_LENGTH = 40;
+const MAX_LISTED_FILES = 3;
+const MAX_BODY_FILES = 5;
+const MARKDOWN_FILE = /\.(md|mdx|markdown)$/i;
+const SYMBOL_PATTERN = /\b(?:function|class|def|func|fn|interface|type|enum|const|let|var)\s+([A-Za-z_$][\w$]*)/;
+const DECLARATION_PATTERN = /^\+(?:export\s+(?:default\s+)?(?:async\s+)?(?:const|let|var|function\*?|class|interface|type|enum)|(?:async\s+)?(?:function\*?|class|def|func|fn|interface|type|enum))\s+([A-Za-z_$][\w$]*)/;
+
+function parseFileChange(chunk: string): FileChange | null {
+    const lines = chunk.split("\n");
+    const header = lines[0]?.match(/^a\/(.+?) b\/(.+)$/);
+    if (!header) return null;
+
+    const change: FileChange = {
+        path: header[2].trim(),
+        status: /^new file mode/m.test(chunk)
+            ? "added"
+            : /^deleted file mode/m.test(chunk)
+                ? "deleted"
+                : /^rename from /m.test(chunk) ? "renamed" : "modified",
+        insertions: 0,
+        deletions: 0,
+        headings: [],
+        symbols: []
+    };
+
+    for (const line of lines.slice(1)) {
+        const hunkContext = line.match(/^@@ [^@]+ @@ (.+)$/)?.[1]?.trim();
+        if (hunkContext) {
+            const heading = hunkContext.match(/^#{1,6}\s+(.+)$/)?.[1];
+            if (heading) change.headings.push(heading);
+            const symbol = hunkContext.match(SYMBOL_PATTERN)?.[1];
+            if (symbol) change.symbols.push(symbol);
+            continue;
+        }
+        if (line.startsWith("+++") || line.startsWith("---")) continue;
+        if (line.startsWith("+")) {
+            change.insertions += 1;
+            const heading = line.match(/^\+#{1,6}\s+(.+)$/)?.[1];
+            if (heading) change.headings.push(heading);
+            const symbol = line.match(DECLARATION_PATTERN)?.[1];
+            if (symbol) change.symbols.push(symbol);
+        } else if (line.startsWith("-")) {
+            change.deletions += 1;
+        }
+    }
+
+    return change;
+}
+
+function parseFileChanges(diff: string): FileChange[] {
+    return diff
+        .split(/^diff --git /m)
+        .map(parseFileChange)
+        .filter((change): change is FileChange => change !== null);
+}
+
+function fileLabel(path: string): string {
+    const fileName = path.split("/").filter(Boolean).pop() ?? path;
+    const dotIdx = fileName.indexOf(".");
+    return (dotIdx > 0 ? fileName.slice(0, dotIdx) : fileName).toLowerCase();
+}
+
+function joinLabels(labels: string[]): string {
+    if (labels.length <= 1) return labels[0] ?? "";
+    return `${labels.slice(0, -1).join(", ")} and ${labels[labels.length - 1]}`;
+}
+
+function clampTarget(target: string): string {
+    const normalized = target.replace(/[`*_]/g, "").replace(/\s+/g, " ").trim();
+    if (normalized.length <= MAX_TARGET_LENGTH) return normalized;
+    return normalized.slice(0, MAX_TARGET_LENGTH).replace(/\s+\S*$/, "");
+}
+
+function describeTarget(files: string[], changes: FileChange[]): string {
+    if (files.length === 1) {
+        const change = changes.find((entry) => entry.path === files[0]);
+        const heading = MARKDOWN_FILE.test(files[0]) ? change?.headings[0] : undefined;
+        if (heading) return `${clampTarget(heading.toLowerCase())} section`;
+        const symbol = change?.symbols[0];
+        if (symbol) return clampTarget(symbol);
+        return fileLabel(files[0]);
+    }
+
+    const labels = [...new Set(files.map(fileLabel))];
+    if (labels.length <= MAX_LISTED_FILES) {
+        const joined = joinLabels(labels);
+        if (joined.length <= MAX_TARGET_LENGTH) return joined;
+    }
+    return `${files.length} files`;
+}
+
+function describeVerb(files: string[], changes: FileChange[]): string {
+    const statuses = files.map((file) => changes.find((entry) => entry.path === file)?.status ?? "modified");
+    if (statuses.every((status) => status === "added")) return "add";
+    if (statuses.every((status) => status === "deleted")) return "remove";
+    if (statuses.every((status) => status === "renamed")) return "rename";
+    return "update";
+}
+
+function selectType(changes: HeuristicChanges, parsed: FileChange[], files: string[]): AllowedType {
+    const allowed = changes.allowedTypes;
+    const preferred = changes.type
+        ?? inferTypeFromDiff(changes.diff)
+        ?? (describeVerb(files, parsed) === "add" ? "feat" : "chore");
+    if (allowed.length === 0 || allowed.includes(preferred)) return preferred;
+    return allowed.includes("chore") ? "chore" : allowed[0];
+}
+
+function buildBody(files: string[], changes: FileChange[]): string {
+    if (files.length <= 1) return "";
+
+    const lines = files.slice(0, MAX_BODY_FILES).map((file) => {
+        const change = changes.find((entry) => entry.path === file);
+        return change ? `- ${file} (+${change.insertions} -${change.deletions})` : `- ${file}`;
+    });
+    if (files.length > MAX_BODY_FILES) {
+        lines.push(`- and ${files.length - MAX_BODY_FILES} more`);
+    }
+    return lines.join("\n");
+}
+
+export function isHeuristicFallback(model: { value: string; requested: string }): boolean {
+    return model.value === HEURISTIC_MODEL && model.requested !== HEURISTIC_MODEL;
+}
+
+export function buildHeuristicMessage(changes: HeuristicChanges): string {
+    const parsed = parseFileChanges(changes.diff);
+    const files = changes.files.length > 0 ? changes.files : parsed.map((change) => change.path);
+    if (files.length === 0) return "chore: update files";
+
+    const type = selectType(changes, parsed, files);
+    const scope = changes.scope ?? inferScopeFromFiles(files);
+    const subject = `${type}${scope ? `(${scope})` : ""}: ${describeVerb(files, parsed)} ${describeTarget(files, parsed)}`;
+    const body = buildBody(files, parsed);
+    return body ? `${subject}\n\n${body}` : subject;
+}
+
+export async function heuristicChat(request: ProviderChatRequest): Promise<string> {
+    if (!request.changes) {
+        throw new ProviderError("The heuristic provider needs the staged changes to build a message.", "INVALID_RESPONSE");
+    }
+
+    const output = JSON.stringify({ message: buildHeuristicMessage(request.changes) });
+    request.onProgress?.(output);
+    return output;
+}
@@ -2,6 +2,7 @@ import { chmod, readFile, unlink, writeFile } from "node:fs/promises";
 import { join, resolve } from "node:path";
 import { ExitCode } from "./exit-codes.js";
 import { getGitDir, getRepoRoot, isGitRepo } from "./git.js";
+import { HEURISTIC_FALLBACK_NOTICE, isHeuristicFallback } from "./heuristic.js";
 import { lintMessageFile } from "./lint-message.js";
 import { resolveCommitPolicy } from "./policy.js";
 import { buildDefaultWorkflowOptions } from "./workflow-options.js";
@@ -125,6 +126,12 @@ export async function runPrepareCommitMsgHook(
         }
 
         if (!result.message.trim()) return ExitCode.Success;
+        if (result.diagnostics && isHeuristicFallback(result.diagnostics.context.model)) {
+            console.error(`commitgen-cc: ${HEURISTIC_FALLBACK_NOTICE}`);
+        }
+        for (const warning of result.diagnostics?.selected?.warnings ?? []) {
+            console.error(`commitgen-cc: ${warning}`);
+        }
         await writeFile(messageFile, `${result.message}\n`, "utf8");
     } catch (error: unknown) {
         console.error(`commitgen-cc: prepare-commit-msg skipped: ${normalizeErrorMessage(error, "Unknown error.")}`);
@@ -2,10 +2,14 @@ import prompts from "prompts";
 import { buildCandidateDiagnostics, buildContextDiagnostics } from "./diagnostics.js";
 import { ExitCode } from "./exit-codes.js";
 import { getAlternatives, buildSuccessResult, commitMessage, maybeRecordHistory } from "./finalize.js";
+import { HEURISTIC_FALLBACK_NOTICE, isHeuristicFallback } from "./heuristic.js";
+import { getActiveModel, getRequestedModel } from "./model-fallback.js";
 import { lintCommitMessage } from "./policy.js";
+import { ProviderError } from "./provider-http.js";
 import { type RankedCandidate } from "./ranking.js";
-import { createTerminalUi, renderReviewScreen } from "./ui.js";
-import { normalizeMessage, type ValidationResult } from "./validation.js";
+import { watchForStopKey } from "./stop-key.js";
+import { createTerminalUi, renderNotice, renderReviewScreen, renderStreamingPreview } from "./ui.js";
+import { extractPartialMessageFromModelOutput, normalizeMessage, type ValidationResult } from "./validation.js";
 import { WorkflowError } from "./workflow-errors.js";
 import { generateCandidates, reviseCandidate } from "./candidates.js";
 import type { RepoContext, ResolvedWorkflowOptions, SuccessResult } from "./workflow.js";
@@ -138,6 +142,14 @@ function printSelectedCandidate(
     console.log("");
 }
 
+function printHeuristicFallbackNotice(options: ResolvedWorkflowOptions): void {
+    if (!isHeuristicFallback({
+        value: getActiveModel(options.modelChain),
+        requested: getRequestedModel(options.modelChain)
+    })) return;
+    console.log(renderNotice(INTERACTIVE_UI, HEURISTIC_FALLBACK_NOTICE));
+}
+
 function validateCandidateMessage(
     message: string,
     options: ResolvedWorkflowOptions
@@ -160,7 +172,8 @@ function createCandidateFromMessage(
         message: normalized,
         source: source ?? (normalized === base.message ? base.source : "repaired"),
         validationErrors: lintCommitMessage(normalized, options.policy, options.ticketPattern).errors,
-        validation: validateCandidateMessage(normalized, options)
+        validation: validateCandidateMessage(normalized, options),
+        warnings: normalized === base.message ? base.warnings : undefined
     };
 }
 
@@ -249,17 +262,63 @@ async function handleFinalAction(
     );
 }
 
+async function generateWithLivePreview(
+    context: RepoContext,
+    options: ResolvedWorkflowOptions,
+    fresh: boolean
+): Promise<RankedCandidate[] | null> {
+    const controller = new AbortController();
+    let stopped = false;
+    let printed = "";
+
+    const releaseStopKey = watchForStopKey(process.stdin, () => {
+        stopped = true;
+        controller.abort();
+    });
+    process.stdout.write("Generating commit message... ");
+    if (releaseStopKey) {
+        process.stdout.write(renderStreamingPreview(INTERACTIVE_UI, "(press any key to stop and regenerate) "));
+    }
+
+    const onProgress = (content: string): void => {
+        const partial = extractPartialMessageFromModelOutput(content);
+        if (!partial) return;
+        const delta = printed && partial.startsWith(printed)
+            ? partial.slice(printed.length)
+            : `\n${partial}`;
+        process.stdout.write(renderStreamingPreview(INTERACTIVE_UI, delta));
+        printed = partial;
+    };
+
+    try {
+        return await generateCandidates(context, {
+            ...options,
+            candidates: 1
+        }, {
+            onProgress,
+            signal: controller.signal
+        }, fresh);
+    } catch (error: unknown) {
+        if (stopped && error instanceof ProviderError && error.code === "ABORTED") return null;
+        throw error;
+    } finally {
+        releaseStopKey?.();
+        if (printed) process.stdout.write("\n");
+    }
+}
+
 async function runSingleMessageInteractive(
     context: RepoContext,
     options: ResolvedWorkflowOptions
 ): Promise<SuccessResult> {
-    while (true) {
-        process.stdout.write("Generating commit message... ");
-        const candidates = await generateCandidates(context, {
-            ...options,
-            candidates: 1
-        });
+    for (let round = 0; ; round += 1) {
+        const candidates = await generateWithLivePreview(context, options, round > 0);
+        if (!candidates) {
+            process.stdout.write("Stopped. Regenerating...\n");
+            continue;
+        }
         process.stdout.write("Done.\n");
+        printHeuristicFallbackNotice(options);
 
         const initial = candidates[0];
         if (!initial) {
@@ -295,10 +354,11 @@ async function runCandidateSelectionInteractive(
     context: RepoContext,
     options: ResolvedWorkflowOptions
 ): Promise<SuccessResult> {
-    while (true) {
+    for (let round = 0; ; round += 1) {
         process.stdout.write("Generating commit candidates... ");
-        const candidates = await generateCandidates(context, options);
+        const candidates = await generateCandidates(context, options, undefined, round > 0);
         process.stdout.write("Done.\n");
+        printHeuristicFallbackNotice(options);
 
         if (candidates.length === 0) {
             throw new WorkflowError(ExitCode.InternalError, "Failed to generate a commit message.");
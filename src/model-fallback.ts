@@ -0,0 +1,64 @@
+import { ExitCode } from "./exit-codes.js";
+import { HEURISTIC_MODEL } from "./heuristic.js";
+import { ProviderError } from "./provider-http.js";
+import { WorkflowError } from "./workflow-errors.js";
+
+export type ModelChain = {
+    models: string[];
+    activeIndex: number;
+};
+
+export function parseModelList(value: string | string[], name: string): string[] {
+    const entries = Array.isArray(value) ? value : value.split(",");
+    const models = [...new Set(entries.map((entry) => entry.trim()).filter((entry) => entry.length > 0))];
+    if (models.length === 0) {
+        throw new WorkflowError(ExitCode.UsageError, `${name} must be a non-empty string.`);
+    }
+    return models;
+}
+
+export function createModelChain(models: string[]): ModelChain {
+    return { models, activeIndex: 0 };
+}
+
+export function getActiveModel(chain: ModelChain): string {
+    return chain.models[chain.activeIndex] ?? chain.models[0] ?? "";
+}
+
+export function getRequestedModel(chain: ModelChain): string {
+    return chain.models[0] ?? "";
+}
+
+function isModelFailure(error: ProviderError): boolean {
+    if (error.code === "MODEL_NOT_FOUND" || error.code === "TIMEOUT") return true;
+    return error.code === "HTTP_ERROR" && Boolean(error.status && error.status >= 500);
+}
+
+function isClientError(error: ProviderError): boolean {
+    return error.code === "HTTP_ERROR" && Boolean(error.status && error.status >= 400 && error.status < 500);
+}
+
+function findFallbackIndex(chain: ModelChain, index: number, error: unknown): number | null {
+    if (!(error instanceof ProviderError) || error.code === "ABORTED" || error.code === "REPLAY_MISMATCH") return null;
+    if (isClientError(error)) return null;
+    if (index < chain.models.length - 1 && isModelFailure(error)) return index + 1;
+    const heuristicIndex = chain.models.indexOf(HEURISTIC_MODEL);
+    return heuristicIndex > index ? heuristicIndex : null;
+}
+
+export async function runWithModelFallback<T>(
+    chain: ModelChain,
+    run: (model: string) => Promise<T>
+): Promise<T> {
+    while (true) {
+        const index = chain.activeIndex;
+        try {
+            return await run(getActiveModel(chain));
+        } catch (error: unknown) {
+            const fallbackIndex = findFallbackIndex(chain, index, error);
+            if (fallbackIndex === null) throw error;
+            // A parallel request may already have moved past this model, so only advance from the one we tried.
+            if (chain.activeIndex === index) chain.activeIndex = fallbackIndex;
+        }
+    }
+}
@@ -0,0 +1,43 @@
+export type ModelOptions = {
+    temperature?: number;
+    seed?: number;
+    numCtx?: number;
+    topP?: number;
+};
+
+export const MODEL_OPTION_KEYS = ["temperature", "seed", "numCtx", "topP"] as const;
+
+export const MIN_TEMPERATURE = 0;
+export const MAX_TEMPERATURE = 2;
+export const MIN_TOP_P = 0;
+export const MAX_TOP_P = 1;
+export const MIN_SEED = 0;
+export const MAX_SEED = 2147483647;
+export const MIN_NUM_CTX = 512;
+export const MAX_NUM_CTX = 1048576;
+
+const BASE_CANDIDATE_TEMPERATURE = 0.8;
+const CANDIDATE_TEMPERATURE_STEP = 0.15;
+
+export function mergeModelOptions(...sources: Array<ModelOptions | null | undefined>): ModelOptions {
+    const merged: ModelOptions = {};
+    for (const source of sources) {
+        if (!source) continue;
+        for (const key of MODEL_OPTION_KEYS) {
+            const value = source[key];
+            if (value !== undefined) merged[key] = value;
+        }
+    }
+    return merged;
+}
+
+export function varyTemperature(options: ModelOptions, attempt: number): ModelOptions {
+    if (attempt <= 0) return options;
+
+    const base = options.temperature ?? BASE_CANDIDATE_TEMPERATURE;
+    const temperature = Math.min(MAX_TEMPERATURE, base + CANDIDATE_TEMPERATURE_STEP * attempt);
+    return {
+        ...options,
+        temperature: Math.round(temperature * 100) / 100
+    };
+}
@@ -1,24 +1,28 @@
-export type ChatMessage = { role: "system" | "user" | "assistant"; content: string };
-
-export type OllamaErrorCode = "UNREACHABLE" | "TIMEOUT" | "HTTP_ERROR" | "MODEL_NOT_FOUND" | "INVALID_RESPONSE";
-
-export class OllamaError extends Error {
-    code: OllamaErrorCode;
-    hint: string | null;
-    status: number | null;
-    retryable: boolean;
-
+import type { ModelOptions } from "./model-options.js";
+import type { ChatMessage, JsonSchema } from "./provider.js";
+import {
+    fetchWithTimeout,
+    isSchemaRejection,
+    ProviderError,
+    readStreamLines,
+    SchemaRejectedError,
+    toUrl,
+    withRetries,
+    withSchemaFallback,
+    type ProviderEndpoint,
+    type ProviderErrorCode
+} from "./provider-http.js";
+
+export type OllamaErrorCode = ProviderErrorCode;
+
+export class OllamaError extends ProviderError {
     constructor(message: string, code: OllamaErrorCode, opts?: {
         hint?: string;
         status?: number;
         retryable?: boolean;
     }) {
-        super(message);
+        super(message, code, opts);
         this.name = "OllamaError";
-        this.code = code;
-        this.hint = opts?.hint ?? null;
-        this.status = opts?.status ?? null;
-        this.retryable = opts?.retryable ?? false;
     }
 }
 
@@ -27,49 +31,40 @@ type ChatOptions = {
     model: string;
     messages: ChatMessage[];
     json?: boolean;
+    schema?: JsonSchema;
     timeoutMs?: number;
     retries?: number;
+    modelOptions?: ModelOptions;
+    onProgress?: (content: string) => void;
+    signal?: AbortSignal;
 };
 
 type TagsResponse = {
     models?: Array<{ name?: string }>;
 };
 
-function toUrl(host: string, path: string): string {
-    return `${host.replace(/\/$/, "")}${path}`;
-}
+type ShowResponse = {
+    parameters?: string;
+    model_info?: Record<string, unknown>;
+};
 
-async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+type ChatStreamChunk = {
+    message?: { content?: string };
+    error?: string;
+};
 
-    try {
-        return await fetch(url, {
-            ...init,
-            signal: controller.signal
-        });
-    } catch (error: unknown) {
-        if (error instanceof DOMException && error.name === "AbortError") {
-            throw new OllamaError(`Ollama request timed out (${timeoutMs}ms).`, "TIMEOUT", {
-                hint: "Ensure Ollama is running and/or increase --timeout-ms.",
-                retryable: true
-            });
-        }
-        if (error instanceof TypeError) {
-            throw new OllamaError("Cannot reach Ollama.", "UNREACHABLE", {
-                hint: "Run `ollama serve` and verify --host points to the local Ollama endpoint.",
-                retryable: true
-            });
-        }
-        throw error;
-    } finally {
-        clearTimeout(timeoutId);
-    }
-}
+const OLLAMA_ENDPOINT: ProviderEndpoint = {
+    label: "Ollama",
+    timeoutHint: "Ensure Ollama is running and/or increase --timeout-ms.",
+    unreachableHint: "Run `ollama serve` and verify --host points to the local Ollama endpoint.",
+    createError: (message, code, opts) => new OllamaError(message, code, opts)
+};
+
+const schemaRejectedHosts = new Set<string>();
 
 export async function listLocalModels(host: string, timeoutMs = 2000): Promise<string[]> {
     const url = toUrl(host, "/api/tags");
-    const res = await fetchWithTimeout(url, { method: "GET" }, timeoutMs);
+    const res = await fetchWithTimeout(url, { method: "GET" }, timeoutMs, OLLAMA_ENDPOINT);
 
     if (!res.ok) {
         throw new OllamaError(`Ollama returned HTTP ${res.status} while checking models.`, "HTTP_ERROR", {
@@ -113,6 +108,39 @@ export async function ensureLocalModel(host: string, model: string, timeoutMs: n
     }
 }
 
+export async function getModelContextLength(host: string, model: string, timeoutMs = 2000): Promise<number | null> {
+    const url = toUrl(host, "/api/show");
+    const res = await fetchWithTimeout(url, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ model })
+    }, timeoutMs, OLLAMA_ENDPOINT);
+
+    if (!res.ok) {
+        throw new OllamaError(`Ollama returned HTTP ${res.status} while reading model details.`, "HTTP_ERROR", {
+            status: res.status,
+            retryable: res.status >= 500,
+            hint: "Confirm the model is pulled and Ollama is reachable on --host."
+        });
+    }
+
+    let data: ShowResponse;
+    try {
+        data = await res.json() as ShowResponse;
+    } catch {
+        throw new OllamaError("Failed to parse Ollama model details response.", "INVALID_RESPONSE", {
+            hint: "Update Ollama and retry. The /api/show response was not valid JSON."
+        });
+    }
+
+    const numCtx = data.parameters?.match(/^num_ctx\s+(\d+)/m)?.[1];
+    if (numCtx) return Number.parseInt(numCtx, 10);
+
+    const contextLength = Object.entries(data.model_info ?? {})
+        .find(([key, value]) => key.endsWith(".context_length") && typeof value === "number")?.[1];
+    return typeof contextLength === "number" ? contextLength : null;
+}
+
 export async function checkOllamaConnection(host: string): Promise<boolean> {
     try {
         await listLocalModels(host, 2000);
@@ -122,88 +150,127 @@ export async function checkOllamaConnection(host: string): Promise<boolean> {
     }
 }
 
-function shouldRetry(error: OllamaError): boolean {
-    if (error.retryable) return true;
-    return error.code === "HTTP_ERROR" && Boolean(error.status && error.status >= 500);
+async function readChatContent(res: Response): Promise<string | undefined> {
+    try {
+        return (await res.json() as { message?: { content?: string } })?.message?.content;
+    } catch {
+        throw new OllamaError("Failed to parse Ollama chat response.", "INVALID_RESPONSE", {
+            hint: "Update Ollama and retry. The /api/chat response was not valid JSON."
+        });
+    }
 }
 
-function normalizeOllamaError(error: unknown): OllamaError {
-    if (error instanceof OllamaError) return error;
-    if (error instanceof Error) {
-        return new OllamaError(error.message, "HTTP_ERROR");
-    }
-    return new OllamaError(String(error), "HTTP_ERROR");
+async function readStreamedContent(
+    res: Response,
+    idleTimeoutMs: number,
+    onProgress: (content: string) => void
+): Promise<string> {
+    let content = "";
+
+    await readStreamLines(res, idleTimeoutMs, OLLAMA_ENDPOINT, (line) => {
+        let chunk: ChatStreamChunk;
+        try {
+            chunk = JSON.parse(line) as ChatStreamChunk;
+        } catch {
+            throw new OllamaError("Failed to parse Ollama stream chunk.", "INVALID_RESPONSE", {
+                hint: "Update Ollama and retry. The /api/chat stream was not valid NDJSON."
+            });
+        }
+
+        if (typeof chunk.error === "string") {
+            throw new OllamaError(`Ollama error: ${chunk.error}`, "HTTP_ERROR", {
+                hint: "Check Ollama logs and confirm the local model can run."
+            });
+        }
+
+        const piece = chunk.message?.content;
+        if (typeof piece === "string" && piece !== "") {
+            content += piece;
+            onProgress(content);
+        }
+    });
+
+    return content;
 }
 
-async function sleep(ms: number): Promise<void> {
-    await new Promise((resolve) => setTimeout(resolve, ms));
+function toOllamaOptions(modelOptions: ModelOptions | undefined): Record<string, number> | undefined {
+    if (!modelOptions) return undefined;
+
+    const options: Record<string, number> = {};
+    if (modelOptions.temperature !== undefined) options.temperature = modelOptions.temperature;
+    if (modelOptions.seed !== undefined) options.seed = modelOptions.seed;
+    if (modelOptions.numCtx !== undefined) options.num_ctx = modelOptions.numCtx;
+    if (modelOptions.topP !== undefined) options.top_p = modelOptions.topP;
+    return Object.keys(options).length > 0 ? options : undefined;
 }
 
-export async function ollamaChat(opts: ChatOptions): Promise<string> {
+async function requestChat(opts: ChatOptions, withSchema: boolean): Promise<string> {
     const timeoutMs = opts.timeoutMs ?? 60000;
-    const retries = Math.max(0, Math.floor(opts.retries ?? 2));
     const url = toUrl(opts.host, "/api/chat");
+    const body: {
+        model: string;
+        messages: ChatMessage[];
+        stream: boolean;
+        format?: "json" | JsonSchema;
+        options?: Record<string, number>;
+    } = {
+        model: opts.model,
+        messages: opts.messages,
+        stream: Boolean(opts.onProgress)
+    };
+    if (withSchema && opts.schema) {
+        body.format = opts.schema;
+    } else if (opts.json || opts.schema) {
+        body.format = "json";
+    }
+    const options = toOllamaOptions(opts.modelOptions);
+    if (options) body.options = options;
 
-    let lastError: OllamaError | null = null;
+    const res = await fetchWithTimeout(url, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(body),
+        signal: opts.signal
+    }, timeoutMs, OLLAMA_ENDPOINT);
 
-    for (let attempt = 0; attempt <= retries; attempt += 1) {
-        try {
-            const body: {
-                model: string;
-                messages: ChatMessage[];
-                stream: boolean;
-                format?: "json";
-            } = {
-                model: opts.model,
-                messages: opts.messages,
-                stream: false
-            };
-            if (opts.json) body.format = "json";
-
-            const res = await fetchWithTimeout(url, {
-                method: "POST",
-                headers: { "content-type": "application/json" },
-                body: JSON.stringify(body)
-            }, timeoutMs);
-
-            if (!res.ok) {
-                const text = await res.text().catch(() => "");
-
-                if (res.status === 404 && text.toLowerCase().includes("model")) {
-                    throw new OllamaError(`Model "${opts.model}" is not available in local Ollama.`, "MODEL_NOT_FOUND", {
-                        status: res.status,
-                        hint: `Run \`ollama pull ${opts.model}\` and try again.`
-                    });
-                }
-
-                throw new OllamaError(`Ollama error ${res.status}: ${text}`, "HTTP_ERROR", {
-                    status: res.status,
-                    retryable: res.status >= 500,
-                    hint: "Check Ollama logs and confirm the local model can run."
-                });
-            }
-
-            const data = await res.json() as { message?: { content?: string } };
-            const content = data?.message?.content;
-            if (typeof content !== "string" || content.trim() === "") {
-                throw new OllamaError("Ollama returned an empty response.", "INVALID_RESPONSE", {
-                    hint: "Try a larger --timeout-ms, then retry generation."
-                });
-            }
-
-            return content;
-        } catch (error: unknown) {
-            const normalized = normalizeOllamaError(error);
-            lastError = normalized;
-
-            if (attempt < retries && shouldRetry(normalized)) {
-                await sleep(150 * (attempt + 1));
-                continue;
-            }
-
-            throw normalized;
+    if (!res.ok) {
+        const text = await res.text().catch(() => "");
+
+        if (res.status === 404 && text.toLowerCase().includes("model")) {
+            throw new OllamaError(`Model "${opts.model}" is not available in local Ollama.`, "MODEL_NOT_FOUND", {
+                status: res.status,
+                hint: `Run \`ollama pull ${opts.model}\` and try again.`
+            });
         }
+
+        if (withSchema && isSchemaRejection(res.status, text)) {
+            throw new SchemaRejectedError(text);
+        }
+
+        throw new OllamaError(`Ollama error ${res.status}: ${text}`, "HTTP_ERROR", {
+            status: res.status,
+            retryable: res.status >= 500,
+            hint: "Check Ollama logs and confirm the local model can run."
+        });
+    }
+
+    const content = opts.onProgress
+        ? await readStreamedContent(res, timeoutMs, opts.onProgress)
+        : await readChatContent(res);
+    if (typeof content !== "string" || content.trim() === "") {
+        throw new OllamaError("Ollama returned an empty response.", "INVALID_RESPONSE", {
+            hint: "Try a larger --timeout-ms, then retry generation."
+        });
     }
 
-    throw (lastError ?? new OllamaError("Unknown Ollama failure.", "HTTP_ERROR"));
+    return content;
+}
+
+export async function ollamaChat(opts: ChatOptions): Promise<string> {
+    return await withRetries(opts.retries, OLLAMA_ENDPOINT, async () => await withSchemaFallback(
+        schemaRejectedHosts,
+        opts.host,
+        Boolean(opts.schema),
+        async (withSchema) => await requestChat(opts, withSchema)
+    ));
 }
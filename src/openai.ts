@@ -0,0 +1,198 @@
+import type { ModelOptions } from "./model-options.js";
+import type { ChatMessage, JsonSchema } from "./provider.js";
+import {
+    fetchWithTimeout,
+    isSchemaRejection,
+    ProviderError,
+    SchemaRejectedError,
+    toUrl,
+    withRetries,
+    withSchemaFallback,
+    type ProviderEndpoint
+} from "./provider-http.js";
+
+type ChatOptions = {
+    host: string;
+    apiKey?: string | null;
+    model: string;
+    messages: ChatMessage[];
+    json?: boolean;
+    schema?: JsonSchema;
+    timeoutMs?: number;
+    retries?: number;
+    modelOptions?: ModelOptions;
+    signal?: AbortSignal;
+};
+
+type ModelsResponse = {
+    data?: Array<{ id?: string }>;
+};
+
+type ResponseFormat =
+    | { type: "json_object" }
+    | { type: "json_schema"; json_schema: { name: string; schema: JsonSchema; strict: boolean } };
+
+type ChatCompletionResponse = {
+    choices?: Array<{ message?: { content?: string | null } }>;
+};
+
+const OPENAI_ENDPOINT: ProviderEndpoint = {
+    label: "OpenAI-compatible server",
+    timeoutHint: "Ensure the server is running and/or increase --timeout-ms.",
+    unreachableHint: "Start the OpenAI-compatible server and verify --host points to its base URL.",
+    createError: (message, code, opts) => new ProviderError(message, code, opts)
+};
+
+const schemaRejectedHosts = new Set<string>();
+
+function toApiUrl(host: string, path: string): string {
+    return toUrl(host.replace(/\/+$/, "").replace(/\/v1$/, ""), `/v1${path}`);
+}
+
+function buildHeaders(apiKey: string | null | undefined): Record<string, string> {
+    const headers: Record<string, string> = { "content-type": "application/json" };
+    if (apiKey) headers.authorization = `Bearer ${apiKey}`;
+    return headers;
+}
+
+function authHint(status: number): string | undefined {
+    if (status === 401 || status === 403) {
+        return "Set GIT_AI_API_KEY to an API key accepted by the server.";
+    }
+    return undefined;
+}
+
+export async function listOpenAiModels(
+    host: string,
+    timeoutMs = 2000,
+    apiKey: string | null = null
+): Promise<string[]> {
+    const res = await fetchWithTimeout(toApiUrl(host, "/models"), {
+        method: "GET",
+        headers: buildHeaders(apiKey)
+    }, timeoutMs, OPENAI_ENDPOINT);
+
+    if (!res.ok) {
+        throw new ProviderError(`OpenAI-compatible server returned HTTP ${res.status} while checking models.`, "HTTP_ERROR", {
+            status: res.status,
+            retryable: res.status >= 500,
+            hint: authHint(res.status) ?? "Confirm the server is healthy and reachable on --host."
+        });
+    }
+
+    let data: ModelsResponse;
+    try {
+        data = await res.json() as ModelsResponse;
+    } catch {
+        throw new ProviderError("Failed to parse OpenAI-compatible model list response.", "INVALID_RESPONSE", {
+            hint: "The /v1/models response was not valid JSON. Verify --host points to an OpenAI-compatible API."
+        });
+    }
+
+    return (data.data ?? [])
+        .map((model) => model.id?.trim())
+        .filter((id): id is string => Boolean(id));
+}
+
+export async function ensureOpenAiModel(
+    host: string,
+    model: string,
+    timeoutMs: number,
+    apiKey: string | null = null
+): Promise<void> {
+    const availableModels = await listOpenAiModels(host, timeoutMs, apiKey);
+    const requested = model.toLowerCase();
+    const found = availableModels.some((available) => available.toLowerCase() === requested);
+
+    if (!found) {
+        throw new ProviderError(`Model "${model}" is not served by the OpenAI-compatible server.`, "MODEL_NOT_FOUND", {
+            hint: availableModels.length > 0
+                ? `Set --model to one of: ${availableModels.join(", ")}.`
+                : "Load a model on the server and try again."
+        });
+    }
+}
+
+async function requestChatCompletion(opts: ChatOptions, withSchema: boolean): Promise<string> {
+    const timeoutMs = opts.timeoutMs ?? 60000;
+    const url = toApiUrl(opts.host, "/chat/completions");
+    const body: {
+        model: string;
+        messages: ChatMessage[];
+        stream: boolean;
+        response_format?: ResponseFormat;
+        temperature?: number;
+        seed?: number;
+        top_p?: number;
+    } = {
+        model: opts.model,
+        messages: opts.messages,
+        stream: false
+    };
+    if (withSchema && opts.schema) {
+        body.response_format = {
+            type: "json_schema",
+            json_schema: { name: "commit_message", schema: opts.schema, strict: true }
+        };
+    } else if (opts.json || opts.schema) {
+        body.response_format = { type: "json_object" };
+    }
+    if (opts.modelOptions?.temperature !== undefined) body.temperature = opts.modelOptions.temperature;
+    if (opts.modelOptions?.seed !== undefined) body.seed = opts.modelOptions.seed;
+    if (opts.modelOptions?.topP !== undefined) body.top_p = opts.modelOptions.topP;
+
+    const res = await fetchWithTimeout(url, {
+        method: "POST",
+        headers: buildHeaders(opts.apiKey),
+        body: JSON.stringify(body),
+        signal: opts.signal
+    }, timeoutMs, OPENAI_ENDPOINT);
+
+    if (!res.ok) {
+        const text = await res.text().catch(() => "");
+
+        if (res.status === 404 && text.toLowerCase().includes("model")) {
+            throw new ProviderError(`Model "${opts.model}" is not served by the OpenAI-compatible server.`, "MODEL_NOT_FOUND", {
+                status: res.status,
+                hint: "Check GET /v1/models on the server and set --model to one of the served ids."
+            });
+        }
+
+        if (withSchema && isSchemaRejection(res.status, text)) {
+            throw new SchemaRejectedError(text);
+        }
+
+        throw new ProviderError(`OpenAI-compatible server error ${res.status}: ${text}`, "HTTP_ERROR", {
+            status: res.status,
+            retryable: res.status >= 500,
+            hint: authHint(res.status) ?? "Check the server logs and confirm the model can run."
+        });
+    }
+
+    let data: ChatCompletionResponse;
+    try {
+        data = await res.json() as ChatCompletionResponse;
+    } catch {
+        throw new ProviderError("Failed to parse OpenAI-compatible chat completion response.", "INVALID_RESPONSE", {
+            hint: "The /v1/chat/completions response was not valid JSON. Verify --host points to an OpenAI-compatible API."
+        });
+    }
+
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== "string" || content.trim() === "") {
+        throw new ProviderError("OpenAI-compatible server returned an empty response.", "INVALID_RESPONSE", {
+            hint: "Try a larger --timeout-ms, then retry generation."
+        });
+    }
+
+    return content;
+}
+
+export async function openAiChat(opts: ChatOptions): Promise<string> {
+    return await withRetries(opts.retries, OPENAI_ENDPOINT, async () => await withSchemaFallback(
+        schemaRejectedHosts,
+        opts.host,
+        Boolean(opts.schema),
+        async (withSchema) => await requestChatCompletion(opts, withSchema)
+    ));
+}
@@ -0,0 +1,142 @@
+import type { HistoryEntry } from "./history.js";
+import type { TypeInference } from "./type-classifier.js";
+import { isAllowedType, parseConventionalSubject, type AllowedType } from "./validation.js";
+
+export type PathHistoryEntry = {
+    files: string[];
+    type: AllowedType | null;
+    scope: string | null;
+};
+
+export type HistorySuggestion = {
+    value: string;
+    confidence: number;
+    supportingCommits: number;
+};
+
+export const HISTORY_LEARNING_LIMIT = 200;
+const MIN_HISTORY_CONFIDENCE = 0.6;
+const STRUCTURAL_DIRS = new Set(["src", "lib", "libs", "test", "tests", "packages", "apps"]);
+
+export function toPathHistoryEntry(message: string, files: string[]): PathHistoryEntry {
+    const parsed = parseConventionalSubject(message.split("\n")[0] ?? "");
+    return {
+        files,
+        type: parsed && isAllowedType(parsed.type) ? parsed.type : null,
+        scope: parsed?.scope ?? null
+    };
+}
+
+function pathKeys(file: string): string[] {
+    const parts = file.split("/").filter(Boolean);
+    const keys = [parts.join("/")];
+    for (let length = parts.length - 1; length > 0; length -= 1) {
+        if (length === 1 && STRUCTURAL_DIRS.has(parts[0])) break;
+        keys.push(parts.slice(0, length).join("/"));
+    }
+    return keys;
+}
+
+function suggestFromHistory(
+    files: string[],
+    entries: PathHistoryEntry[],
+    pick: (entry: PathHistoryEntry) => string | null
+): HistorySuggestion | null {
+    if (files.length === 0) return null;
+
+    const index = new Map<string, Map<string, Set<number>>>();
+    entries.forEach((entry, id) => {
+        const value = pick(entry);
+        if (!value) return;
+        for (const key of entry.files.flatMap(pathKeys)) {
+            const values = index.get(key) ?? new Map<string, Set<number>>();
+            values.set(value, (values.get(value) ?? new Set<number>()).add(id));
+            index.set(key, values);
+        }
+    });
+
+    const votes = new Map<string, number>();
+    const supporting = new Map<string, Set<number>>();
+    for (const file of files) {
+        const values = pathKeys(file).map((key) => index.get(key)).find(Boolean);
+        if (!values) continue;
+
+        const total = [...values.values()].reduce((sum, ids) => sum + ids.size, 0);
+        for (const [value, ids] of values) {
+            votes.set(value, (votes.get(value) ?? 0) + ids.size / total);
+            supporting.set(value, new Set([...(supporting.get(value) ?? []), ...ids]));
+        }
+    }
+
+    const best = [...votes.entries()].sort((left, right) => right[1] - left[1])[0];
+    if (!best) return null;
+    const confidence = Math.round((best[1] / files.length) * 100) / 100;
+    if (confidence < MIN_HISTORY_CONFIDENCE) return null;
+
+    return { value: best[0], confidence, supportingCommits: supporting.get(best[0])?.size ?? 0 };
+}
+
+function pastCommits(count: number): string {
+    return `${count} past commit${count === 1 ? "" : "s"}`;
+}
+
+export function suggestScopeFromHistory(files: string[], entries: PathHistoryEntry[]): {
+    scope: string;
+    confidence: number;
+    reasons: string[];
+} | null {
+    const suggestion = suggestFromHistory(files, entries, (entry) => entry.scope);
+    if (!suggestion) return null;
+    return {
+        scope: suggestion.value,
+        confidence: suggestion.confidence,
+        reasons: [`${pastCommits(suggestion.supportingCommits)} touching these paths used scope ${suggestion.value}`]
+    };
+}
+
+export function suggestTypeFromHistory(files: string[], entries: PathHistoryEntry[]): TypeInference | null {
+    const suggestion = suggestFromHistory(files, entries, (entry) => entry.type);
+    if (!suggestion) return null;
+    return {
+        type: suggestion.value as AllowedType,
+        confidence: suggestion.confidence,
+        source: "history",
+        reasons: [`${pastCommits(suggestion.supportingCommits)} touching these paths used type ${suggestion.value}`]
+    };
+}
+
+function parentDirs(files: string[]): Set<string> {
+    const dirs = new Set<string>();
+    for (const file of files) {
+        const parts = file.split("/").slice(0, -1);
+        for (let length = 1; length <= parts.length; length += 1) {
+            dirs.add(parts.slice(0, length).join("/"));
+        }
+    }
+    return dirs;
+}
+
+function scoreHistoryEntry(entry: HistoryEntry, files: Set<string>, dirs: Set<string>, scope: string | null): number {
+    const sharedFiles = entry.files.filter((file) => files.has(file)).length;
+    const sharedDirs = [...parentDirs(entry.files)].filter((dir) => dirs.has(dir)).length;
+    return sharedFiles * 3 + sharedDirs + (scope && entry.scope === scope ? 2 : 0);
+}
+
+export function selectRelevantHistory(
+    entries: HistoryEntry[],
+    files: string[],
+    scope: string | null,
+    limit: number
+): HistoryEntry[] {
+    const fileSet = new Set(files);
+    const dirs = parentDirs(files);
+    const relevant = entries
+        .map((entry, index) => ({ entry, index, score: scoreHistoryEntry(entry, fileSet, dirs, scope) }))
+        .filter((candidate) => candidate.score > 0)
+        .sort((left, right) => right.score - left.score || left.index - right.index)
+        .slice(0, limit)
+        .map((candidate) => candidate.entry);
+
+    const recent = entries.filter((entry) => !relevant.includes(entry));
+    return [...relevant, ...recent].slice(0, limit);
+}
@@ -1,8 +1,10 @@
-import type { RepoConfig } from "./config.js";
+import type { RepoConfig, ScopeMapEntry } from "./config.js";
 import { normalizeScopeName } from "./util.js";
 import {
     ALLOWED_TYPES,
     DEFAULT_SUBJECT_MAX_LENGTH,
+    hasBreakingFooter,
+    isBreakingSubject,
     messageMentionsTicket,
     normalizeMessage,
     parseConventionalSubject,
@@ -18,9 +20,11 @@ export type CommitPolicy = {
     requireTicket: boolean;
     allowedTypes: AllowedType[];
     requiredScopes: string[];
-    scopeMap: Record<string, string>;
+    scopeMap: Record<string, ScopeMapEntry>;
+    ownerScopes: Record<string, string>;
     subjectMaxLength: number;
     bodyRequiredTypes: AllowedType[];
+    requireBreakingFooter: boolean;
 };
 
 export type LintMessageResult = {
@@ -44,21 +48,36 @@ function normalizeScopes(scopes: string[] | undefined): string[] {
     );
 }
 
-export function resolveCommitPolicy(config: RepoConfig): CommitPolicy {
-    const normalizedScopeMap = Object.fromEntries(
-        Object.entries(config.scopeMap ?? {})
-            .map(([path, scope]) => [path.trim(), normalizeScopeName(scope)])
+function normalizeScopeMap(scopeMap: Record<string, string> | undefined): Record<string, string> {
+    return Object.fromEntries(
+        Object.entries(scopeMap ?? {})
+            .map(([key, scope]) => [key.trim(), normalizeScopeName(scope)])
             .filter((entry): entry is [string, string] => Boolean(entry[0]) && Boolean(entry[1]))
     );
+}
+
+function normalizeScopeMapEntries(scopeMap: Record<string, ScopeMapEntry> | undefined): Record<string, ScopeMapEntry> {
+    const entries: Record<string, ScopeMapEntry> = {};
+    for (const [rawPath, entry] of Object.entries(scopeMap ?? {})) {
+        const path = rawPath.trim();
+        const scope = normalizeScopeName(typeof entry === "string" ? entry : entry.scope);
+        if (!path || !scope) continue;
+        entries[path] = typeof entry === "string" ? scope : { scope, priority: entry.priority };
+    }
+    return entries;
+}
 
+export function resolveCommitPolicy(config: RepoConfig): CommitPolicy {
     return {
         hookMode: config.hookMode ?? "suggest",
         requireTicket: config.requireTicket ?? false,
         allowedTypes: uniqueValues(config.allowedTypes ?? ALLOWED_TYPES) as AllowedType[],
         requiredScopes: normalizeScopes(config.requiredScopes),
-        scopeMap: normalizedScopeMap,
+        scopeMap: normalizeScopeMapEntries(config.scopeMap),
+        ownerScopes: normalizeScopeMap(config.ownerScopes),
         subjectMaxLength: config.subjectMaxLength ?? DEFAULT_SUBJECT_MAX_LENGTH,
-        bodyRequiredTypes: uniqueValues(config.bodyRequiredTypes ?? []) as AllowedType[]
+        bodyRequiredTypes: uniqueValues(config.bodyRequiredTypes ?? []) as AllowedType[],
+        requireBreakingFooter: config.requireBreakingFooter ?? false
     };
 }
 
@@ -113,6 +132,15 @@ export function lintCommitMessage(
         }
     }
 
+    const breakingSubject = isBreakingSubject(subject);
+    const breakingFooter = hasBreakingFooter(getMessageBody(normalizedMessage));
+    if (policy.requireBreakingFooter && breakingFooter && !breakingSubject) {
+        errors.push('A "BREAKING CHANGE:" footer needs "!" after the type or scope.');
+    }
+    if (policy.requireBreakingFooter && breakingSubject && !breakingFooter) {
+        errors.push('Breaking changes marked with "!" need a "BREAKING CHANGE:" footer.');
+    }
+
     return {
         ok: errors.length === 0,
         normalizedMessage,
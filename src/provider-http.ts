@@ -0,0 +1,225 @@
+export type ProviderErrorCode =
+    | "UNREACHABLE"
+    | "TIMEOUT"
+    | "HTTP_ERROR"
+    | "MODEL_NOT_FOUND"
+    | "INVALID_RESPONSE"
+    | "ABORTED"
+    | "REPLAY_MISMATCH";
+
+export class ProviderError extends Error {
+    code: ProviderErrorCode;
+    hint: string | null;
+    status: number | null;
+    retryable: boolean;
+
+    constructor(message: string, code: ProviderErrorCode, opts?: {
+        hint?: string;
+        status?: number;
+        retryable?: boolean;
+    }) {
+        super(message);
+        this.name = "ProviderError";
+        this.code = code;
+        this.hint = opts?.hint ?? null;
+        this.status = opts?.status ?? null;
+        this.retryable = opts?.retryable ?? false;
+    }
+}
+
+export type ProviderEndpoint = {
+    label: string;
+    timeoutHint: string;
+    unreachableHint: string;
+    createError: (message: string, code: ProviderErrorCode, opts?: {
+        hint?: string;
+        status?: number;
+        retryable?: boolean;
+    }) => ProviderError;
+};
+
+export function toUrl(host: string, path: string): string {
+    return `${host.replace(/\/$/, "")}${path}`;
+}
+
+function isAbortError(error: unknown): boolean {
+    return error instanceof DOMException && error.name === "AbortError";
+}
+
+function createAbortedError(endpoint: ProviderEndpoint): ProviderError {
+    return endpoint.createError(`${endpoint.label} request was stopped.`, "ABORTED");
+}
+
+export async function fetchWithTimeout(
+    url: string,
+    init: RequestInit,
+    timeoutMs: number,
+    endpoint: ProviderEndpoint
+): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    const callerSignal = init.signal ?? null;
+
+    try {
+        return await fetch(url, {
+            ...init,
+            signal: callerSignal ? AbortSignal.any([controller.signal, callerSignal]) : controller.signal
+        });
+    } catch (error: unknown) {
+        if (isAbortError(error) && callerSignal?.aborted) {
+            throw createAbortedError(endpoint);
+        }
+        if (isAbortError(error)) {
+            throw endpoint.createError(`${endpoint.label} request timed out (${timeoutMs}ms).`, "TIMEOUT", {
+                hint: endpoint.timeoutHint,
+                retryable: true
+            });
+        }
+        if (error instanceof TypeError) {
+            throw endpoint.createError(`Cannot reach ${endpoint.label}.`, "UNREACHABLE", {
+                hint: endpoint.unreachableHint,
+                retryable: true
+            });
+        }
+        throw error;
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
+
+async function readWithIdleTimeout(
+    reader: ReadableStreamDefaultReader<Uint8Array>,
+    idleTimeoutMs: number,
+    endpoint: ProviderEndpoint
+): Promise<ReadableStreamReadResult<Uint8Array>> {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const idle = new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(() => {
+            reject(endpoint.createError(`${endpoint.label} stream stalled (${idleTimeoutMs}ms without data).`, "TIMEOUT", {
+                hint: endpoint.timeoutHint,
+                retryable: true
+            }));
+            void reader.cancel().catch(() => undefined);
+        }, idleTimeoutMs);
+    });
+
+    try {
+        return await Promise.race([reader.read(), idle]);
+    } catch (error: unknown) {
+        if (isAbortError(error)) throw createAbortedError(endpoint);
+        throw error;
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
+
+export async function readStreamLines(
+    res: Response,
+    idleTimeoutMs: number,
+    endpoint: ProviderEndpoint,
+    onLine: (line: string) => void
+): Promise<void> {
+    const reader = res.body?.getReader();
+    if (!reader) {
+        throw endpoint.createError(`${endpoint.label} returned an empty stream.`, "INVALID_RESPONSE", {
+            hint: "Retry generation, or disable streaming by running with --ci."
+        });
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    const flushLines = (): void => {
+        let newlineIndex = buffer.indexOf("\n");
+        while (newlineIndex >= 0) {
+            const line = buffer.slice(0, newlineIndex).trim();
+            buffer = buffer.slice(newlineIndex + 1);
+            if (line) onLine(line);
+            newlineIndex = buffer.indexOf("\n");
+        }
+    };
+
+    while (true) {
+        const { done, value } = await readWithIdleTimeout(reader, idleTimeoutMs, endpoint);
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        flushLines();
+    }
+
+    buffer += decoder.decode();
+    const rest = buffer.trim();
+    if (rest) onLine(rest);
+}
+
+export class SchemaRejectedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "SchemaRejectedError";
+    }
+}
+
+export function isSchemaRejection(status: number, body: string): boolean {
+    if (status !== 400 && status !== 422) return false;
+    return /format|schema|unmarshal/i.test(body);
+}
+
+export async function withSchemaFallback<T>(
+    schemaRejectedHosts: Set<string>,
+    host: string,
+    useSchema: boolean,
+    run: (withSchema: boolean) => Promise<T>
+): Promise<T> {
+    if (useSchema && !schemaRejectedHosts.has(host)) {
+        try {
+            return await run(true);
+        } catch (error: unknown) {
+            if (!(error instanceof SchemaRejectedError)) throw error;
+            schemaRejectedHosts.add(host);
+        }
+    }
+    return await run(false);
+}
+
+function shouldRetry(error: ProviderError): boolean {
+    if (error.retryable) return true;
+    return error.code === "HTTP_ERROR" && Boolean(error.status && error.status >= 500);
+}
+
+function normalizeProviderError(error: unknown, endpoint: ProviderEndpoint): ProviderError {
+    if (error instanceof ProviderError) return error;
+    if (error instanceof Error) {
+        return endpoint.createError(error.message, "HTTP_ERROR");
+    }
+    return endpoint.createError(String(error), "HTTP_ERROR");
+}
+
+async function sleep(ms: number): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export async function withRetries<T>(
+    retries: number | undefined,
+    endpoint: ProviderEndpoint,
+    run: () => Promise<T>
+): Promise<T> {
+    const maxRetries = Math.max(0, Math.floor(retries ?? 2));
+    let lastError: ProviderError | null = null;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt += 1) {
+        try {
+            return await run();
+        } catch (error: unknown) {
+            const normalized = normalizeProviderError(error, endpoint);
+            lastError = normalized;
+
+            if (attempt < maxRetries && shouldRetry(normalized)) {
+                await sleep(150 * (attempt + 1));
+                continue;
+            }
+
+            throw normalized;
+        }
+    }
+
+    throw (lastError ?? endpoint.createError(`Unknown ${endpoint.label} failure.`, "HTTP_ERROR"));
+}
@@ -0,0 +1,120 @@
+import { HEURISTIC_MODEL, heuristicChat, type HeuristicChanges } from "./heuristic.js";
+import type { ModelOptions } from "./model-options.js";
+import { ensureLocalModel, getModelContextLength, listLocalModels, ollamaChat } from "./ollama.js";
+import { ensureOpenAiModel, listOpenAiModels, openAiChat } from "./openai.js";
+import { withRecording, type Recording } from "./recording.js";
+
+export type ChatMessage = { role: "system" | "user" | "assistant"; content: string };
+
+export type ProviderName = "ollama" | "openai" | "heuristic";
+
+export type ProviderLabel = "Ollama" | "OpenAI-compatible" | "Heuristic";
+
+export const PROVIDER_NAMES: ProviderName[] = ["ollama", "openai", "heuristic"];
+
+export type JsonSchema = Record<string, unknown>;
+
+export type ProviderChatRequest = {
+    model: string;
+    messages: ChatMessage[];
+    json?: boolean;
+    schema?: JsonSchema;
+    timeoutMs?: number;
+    retries?: number;
+    modelOptions?: ModelOptions;
+    onProgress?: (content: string) => void;
+    signal?: AbortSignal;
+    changes?: HeuristicChanges;
+};
+
+export type LlmProvider = {
+    name: ProviderName;
+    label: ProviderLabel;
+    chat: (request: ProviderChatRequest) => Promise<string>;
+    listModels: (timeoutMs: number) => Promise<string[]>;
+    healthCheck: (model: string, timeoutMs: number) => Promise<void>;
+    contextLength: (model: string, timeoutMs: number) => Promise<number | null>;
+};
+
+export type ProviderSettings = {
+    provider: ProviderName;
+    host: string;
+    apiKey?: string | null;
+    recording?: Recording | null;
+};
+
+export function isProviderName(value: string): value is ProviderName {
+    return PROVIDER_NAMES.includes(value as ProviderName);
+}
+
+export function parseProviderName(value: string, name: string): ProviderName {
+    const normalized = value.trim().toLowerCase();
+    if (!isProviderName(normalized)) {
+        throw new Error(`${name} must be one of: ${PROVIDER_NAMES.join(", ")}.`);
+    }
+    return normalized;
+}
+
+function createOllamaProvider(host: string): LlmProvider {
+    return {
+        name: "ollama",
+        label: "Ollama",
+        chat: async (request) => await ollamaChat({ host, ...request }),
+        listModels: async (timeoutMs) => await listLocalModels(host, timeoutMs),
+        healthCheck: async (model, timeoutMs) => await ensureLocalModel(host, model, timeoutMs),
+        contextLength: async (model, timeoutMs) => await getModelContextLength(host, model, timeoutMs)
+    };
+}
+
+function createOpenAiProvider(host: string, apiKey: string | null): LlmProvider {
+    return {
+        name: "openai",
+        label: "OpenAI-compatible",
+        chat: async (request) => await openAiChat({ host, apiKey, ...request }),
+        listModels: async (timeoutMs) => await listOpenAiModels(host, timeoutMs, apiKey),
+        healthCheck: async (model, timeoutMs) => await ensureOpenAiModel(host, model, timeoutMs, apiKey),
+        contextLength: async () => null
+    };
+}
+
+function createHeuristicProvider(): LlmProvider {
+    return {
+        name: "heuristic",
+        label: "Heuristic",
+        chat: heuristicChat,
+        listModels: async () => [HEURISTIC_MODEL],
+        healthCheck: async () => undefined,
+        contextLength: async () => null
+    };
+}
+
+function withHeuristicModel(provider: LlmProvider): LlmProvider {
+    return {
+        ...provider,
+        chat: async (request) => request.model === HEURISTIC_MODEL
+            ? await heuristicChat(request)
+            : await provider.chat(request),
+        healthCheck: async (model, timeoutMs) => {
+            if (model === HEURISTIC_MODEL) return;
+            await provider.healthCheck(model, timeoutMs);
+        },
+        contextLength: async (model, timeoutMs) => model === HEURISTIC_MODEL
+            ? null
+            : await provider.contextLength(model, timeoutMs)
+    };
+}
+
+export function createProvider(settings: ProviderSettings): LlmProvider {
+    switch (settings.provider) {
+        case "heuristic":
+            return createHeuristicProvider();
+        case "openai":
+            return withHeuristicModel(withRecording(
+                createOpenAiProvider(settings.host, settings.apiKey ?? null),
+                settings.recording
+            ));
+        case "ollama":
+        default:
+            return withHeuristicModel(withRecording(createOllamaProvider(settings.host), settings.recording));
+    }
+}
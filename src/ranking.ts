@@ -1,11 +1,12 @@
 import type { AllowedType, ValidationResult } from "./validation.js";
-import { normalizeScopeName } from "./util.js";
+import { escapeRegExp, normalizeScopeName } from "./util.js";
 
 export type RankedCandidate = {
     message: string;
     source: "model" | "repaired";
     validation: ValidationResult;
     validationErrors?: string[];
+    warnings?: string[];
     score: number;
     scoreBreakdown: ScoreBreakdown;
 };
@@ -15,6 +16,8 @@ export type ScoreContext = {
     expectedScope: string | null;
     ticket: string | null;
     subjectMaxLength: number;
+    touchedSymbols?: string[];
+    evidence?: string;
 };
 
 export type ScoreBreakdown = {
@@ -28,8 +31,13 @@ export type ScoreBreakdown = {
     expectedScopePoints: number;
     ticketFooterPresent: boolean;
     ticketFooterPoints: number;
+    touchedSymbolMentioned: boolean;
+    touchedSymbolPoints: number;
     genericDescriptionPenalty: boolean;
     genericDescriptionPoints: number;
+    unknownReferencePenalty: boolean;
+    unknownReferencePoints: number;
+    unknownReferences: string[];
     total: number;
 };
 
@@ -42,6 +50,14 @@ const GENERIC_DESCRIPTION_PATTERNS = [
     /^small improvements?$/i
 ];
 
+const REFERENCE_PATTERNS = [
+    /`([^`\s]+)`/g,
+    /(?<![\w./-])(?:[\w.-]+\/)+[\w.-]*\w/g,
+    /(?<![\w./-])[\w-]{2,}\.[a-z][a-z0-9]{0,4}\b/gi,
+    /\b[a-z][a-z0-9]*[A-Z][A-Za-z0-9]*\b/g,
+    /\b[A-Za-z][A-Za-z0-9]*_[A-Za-z0-9_]+\b/g
+];
+
 function getSubject(message: string): string {
     return message.split("\n")[0]?.trim() ?? "";
 }
@@ -68,6 +84,24 @@ function includesTicketFooter(message: string, ticket: string | null): boolean {
     return message.includes(`Refs ${ticket}`);
 }
 
+function mentionsTouchedSymbol(message: string, symbols: string[]): boolean {
+    return symbols.some((symbol) => new RegExp(`(?<![\\w$])${escapeRegExp(symbol)}(?![\\w$])`, "i").test(message));
+}
+
+function findUnknownReferences(message: string, description: string, evidence: string | undefined): string[] {
+    if (evidence === undefined) return [];
+
+    const text = [description, ...message.split("\n").slice(1).filter((line) => !/^Refs\s/.test(line.trim()))].join("\n");
+    const references = new Set<string>();
+    for (const pattern of REFERENCE_PATTERNS) {
+        for (const match of text.matchAll(pattern)) references.add(match[1] ?? match[0]);
+    }
+
+    const known = evidence.toLowerCase();
+    const unknown = [...references].filter((reference) => !known.includes(reference.toLowerCase()));
+    return unknown.filter((reference) => !unknown.some((other) => other !== reference && other.includes(reference)));
+}
+
 function isGenericDescription(description: string): boolean {
     return GENERIC_DESCRIPTION_PATTERNS.some((pattern) => pattern.test(description.trim()));
 }
@@ -89,8 +123,13 @@ export function getScoreBreakdown(
     const expectedScopePoints = expectedScopeMatch ? 1_000 : 0;
     const ticketFooterPresent = Boolean(context.ticket && includesTicketFooter(message, context.ticket));
     const ticketFooterPoints = ticketFooterPresent ? 100 : 0;
+    const touchedSymbolMentioned = mentionsTouchedSymbol(message, context.touchedSymbols ?? []);
+    const touchedSymbolPoints = touchedSymbolMentioned ? 50 : 0;
     const genericDescriptionPenalty = isGenericDescription(parsed.description);
     const genericDescriptionPoints = genericDescriptionPenalty ? -10 : 0;
+    const unknownReferences = findUnknownReferences(message, parsed.description, context.evidence);
+    const unknownReferencePenalty = unknownReferences.length > 0;
+    const unknownReferencePoints = unknownReferencePenalty ? -500 : 0;
 
     return {
         valid: validation.ok,
@@ -103,14 +142,21 @@ export function getScoreBreakdown(
         expectedScopePoints,
         ticketFooterPresent,
         ticketFooterPoints,
+        touchedSymbolMentioned,
+        touchedSymbolPoints,
         genericDescriptionPenalty,
         genericDescriptionPoints,
+        unknownReferencePenalty,
+        unknownReferencePoints,
+        unknownReferences,
         total: validPoints
             + subjectWithinLimitPoints
             + expectedTypePoints
             + expectedScopePoints
             + ticketFooterPoints
+            + touchedSymbolPoints
             + genericDescriptionPoints
+            + unknownReferencePoints
     };
 }
 
@@ -123,7 +169,7 @@ export function scoreCandidate(
 }
 
 export function rankCandidates(
-    candidates: Array<Pick<RankedCandidate, "message" | "source" | "validation" | "validationErrors">>,
+    candidates: Array<Pick<RankedCandidate, "message" | "source" | "validation" | "validationErrors" | "warnings">>,
     context: ScoreContext
 ): RankedCandidate[] {
     return candidates
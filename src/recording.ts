@@ -0,0 +1,297 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { ExitCode } from "./exit-codes.js";
+import type { ModelOptions } from "./model-options.js";
+import type { ChatMessage, JsonSchema, LlmProvider, ProviderChatRequest } from "./provider.js";
+import { ProviderError } from "./provider-http.js";
+import { normalizeErrorMessage } from "./util.js";
+import { WorkflowError } from "./workflow-errors.js";
+
+export type RecordingMode = "record" | "replay";
+
+export type RecordedRequest = {
+    model: string;
+    messages: ChatMessage[];
+    json?: boolean;
+    schema?: JsonSchema;
+    modelOptions?: ModelOptions;
+};
+
+export type RecordedExchange = {
+    request: RecordedRequest;
+    response: string;
+};
+
+export type Recording = {
+    mode: RecordingMode;
+    path: string;
+    exchanges: RecordedExchange[] | null;
+    contextLengths: Record<string, number>;
+    replayed: Set<number>;
+    pendingWrite: Promise<void>;
+};
+
+export const RECORDING_VERSION = 1;
+
+const DIFF_CONTEXT_LINES = 2;
+const MAX_DIFF_LINES = 40;
+const MAX_DIFF_CELLS = 1_000_000;
+
+type DiffLine = { kind: " " | "-" | "+"; text: string };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function parseChatMessage(value: unknown): ChatMessage | null {
+    if (!isRecord(value) || typeof value.content !== "string") return null;
+    if (value.role !== "system" && value.role !== "user" && value.role !== "assistant") return null;
+    return { role: value.role, content: value.content };
+}
+
+function parseExchange(value: unknown): RecordedExchange | null {
+    if (!isRecord(value) || !isRecord(value.request) || typeof value.response !== "string") return null;
+    const { model, messages, json, schema, modelOptions } = value.request;
+    if (typeof model !== "string" || !Array.isArray(messages)) return null;
+
+    const parsedMessages = messages.map(parseChatMessage);
+    if (parsedMessages.some((message) => message === null)) return null;
+
+    return {
+        request: toRecordedRequest({
+            model,
+            messages: parsedMessages as ChatMessage[],
+            json: typeof json === "boolean" ? json : undefined,
+            schema: isRecord(schema) ? schema : undefined,
+            modelOptions: isRecord(modelOptions) ? modelOptions as ModelOptions : undefined
+        }),
+        response: value.response
+    };
+}
+
+function parseContextLengths(value: unknown): Record<string, number> | null {
+    if (value === undefined) return {};
+    if (!isRecord(value)) return null;
+    const entries = Object.entries(value);
+    if (entries.some(([, length]) => !Number.isInteger(length))) return null;
+    return Object.fromEntries(entries) as Record<string, number>;
+}
+
+function toRecordedRequest(request: Pick<ProviderChatRequest, keyof RecordedRequest>): RecordedRequest {
+    const recorded: RecordedRequest = {
+        model: request.model,
+        messages: request.messages.map((message) => ({ role: message.role, content: message.content }))
+    };
+    if (request.json !== undefined) recorded.json = request.json;
+    if (request.schema !== undefined) recorded.schema = request.schema;
+    if (request.modelOptions !== undefined && Object.keys(request.modelOptions).length > 0) {
+        recorded.modelOptions = request.modelOptions;
+    }
+    return recorded;
+}
+
+function renderRequestLines(request: RecordedRequest): string[] {
+    const lines = [`model: ${request.model}`];
+    if (request.modelOptions) lines.push(`modelOptions: ${JSON.stringify(request.modelOptions)}`);
+    if (request.json !== undefined) lines.push(`json: ${request.json}`);
+    if (request.schema) lines.push(`schema: ${JSON.stringify(request.schema)}`);
+    for (const message of request.messages) {
+        lines.push(`[${message.role}]`, ...message.content.split("\n"));
+    }
+    return lines;
+}
+
+function diffMiddle(before: string[], after: string[]): DiffLine[] {
+    const removed = before.map((text): DiffLine => ({ kind: "-", text }));
+    const added = after.map((text): DiffLine => ({ kind: "+", text }));
+    if (before.length * after.length > MAX_DIFF_CELLS) return [...removed, ...added];
+
+    const width = after.length + 1;
+    const lengths = new Uint32Array((before.length + 1) * width);
+    for (let i = before.length - 1; i >= 0; i -= 1) {
+        for (let j = after.length - 1; j >= 0; j -= 1) {
+            lengths[i * width + j] = before[i] === after[j]
+                ? lengths[(i + 1) * width + j + 1] + 1
+                : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+        }
+    }
+
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < before.length || j < after.length) {
+        if (i < before.length && j < after.length && before[i] === after[j]) {
+            lines.push({ kind: " ", text: before[i] });
+            i += 1;
+            j += 1;
+        } else if (j >= after.length || (i < before.length && lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+            lines.push(removed[i]);
+            i += 1;
+        } else {
+            lines.push(added[j]);
+            j += 1;
+        }
+    }
+    return lines;
+}
+
+function diffLines(before: string[], after: string[]): DiffLine[] {
+    let prefix = 0;
+    while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix += 1;
+    let suffix = 0;
+    while (
+        suffix < before.length - prefix
+        && suffix < after.length - prefix
+        && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+    ) suffix += 1;
+
+    return [
+        ...before.slice(0, prefix).map((text): DiffLine => ({ kind: " ", text })),
+        ...diffMiddle(before.slice(prefix, before.length - suffix), after.slice(prefix, after.length - suffix)),
+        ...before.slice(before.length - suffix).map((text): DiffLine => ({ kind: " ", text }))
+    ];
+}
+
+function countChanges(lines: DiffLine[]): number {
+    return lines.filter((line) => line.kind !== " ").length;
+}
+
+function formatDiff(lines: DiffLine[]): string {
+    const visible = lines.filter((_, index) => lines
+        .slice(Math.max(0, index - DIFF_CONTEXT_LINES), index + DIFF_CONTEXT_LINES + 1)
+        .some((line) => line.kind !== " "));
+    const shown = visible.slice(0, MAX_DIFF_LINES).map((line) => `${line.kind} ${line.text}`);
+    if (visible.length > MAX_DIFF_LINES) shown.push(`… ${visible.length - MAX_DIFF_LINES} more lines`);
+    return shown.join("\n");
+}
+
+export function describeReplayMismatch(recorded: RecordedExchange[], request: RecordedRequest): string {
+    const current = renderRequestLines(request);
+    const closest = recorded
+        .map((exchange) => diffLines(renderRequestLines(exchange.request), current))
+        .sort((a, b) => countChanges(a) - countChanges(b))[0];
+    if (!closest) return "The recording does not contain any requests.";
+    return `Closest recorded request (- recorded, + current):\n${formatDiff(closest)}`;
+}
+
+export function createRecording(mode: RecordingMode, path: string): Recording {
+    return {
+        mode,
+        path,
+        exchanges: mode === "record" ? [] : null,
+        contextLengths: {},
+        replayed: new Set(),
+        pendingWrite: Promise.resolve()
+    };
+}
+
+export async function loadRecording(recording: Recording): Promise<RecordedExchange[]> {
+    if (recording.exchanges) return recording.exchanges;
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(await readFile(recording.path, "utf8"));
+    } catch (error: unknown) {
+        throw new WorkflowError(
+            ExitCode.UsageError,
+            `Failed to read recording "${recording.path}": ${normalizeErrorMessage(error, "unknown error")}`,
+            { hint: "Create one with --record <file> first." }
+        );
+    }
+
+    const contents = isRecord(parsed) && parsed.version === RECORDING_VERSION && Array.isArray(parsed.exchanges)
+        ? { exchanges: parsed.exchanges.map(parseExchange), contextLengths: parseContextLengths(parsed.contextLengths) }
+        : null;
+    if (!contents?.contextLengths || contents.exchanges.some((exchange) => exchange === null)) {
+        throw new WorkflowError(ExitCode.UsageError, `Recording "${recording.path}" is not a valid commitgen recording.`, {
+            hint: "Re-create it with --record <file>."
+        });
+    }
+
+    recording.contextLengths = contents.contextLengths;
+    recording.exchanges = contents.exchanges as RecordedExchange[];
+    return recording.exchanges;
+}
+
+async function saveRecording(recording: Recording): Promise<void> {
+    const contents = {
+        version: RECORDING_VERSION,
+        contextLengths: recording.contextLengths,
+        exchanges: recording.exchanges ?? []
+    };
+    try {
+        await mkdir(dirname(recording.path), { recursive: true });
+        const tempPath = `${recording.path}.${process.pid}.tmp`;
+        await writeFile(tempPath, `${JSON.stringify(contents, null, 2)}\n`, "utf8");
+        await rename(tempPath, recording.path);
+    } catch (error: unknown) {
+        throw new WorkflowError(
+            ExitCode.UsageError,
+            `Failed to write recording "${recording.path}": ${normalizeErrorMessage(error, "unknown error")}`
+        );
+    }
+}
+
+async function recordExchange(recording: Recording, exchange: RecordedExchange): Promise<void> {
+    recording.exchanges = [...(recording.exchanges ?? []), exchange];
+    const write = recording.pendingWrite.then(async () => await saveRecording(recording));
+    recording.pendingWrite = write.catch(() => undefined);
+    await write;
+}
+
+async function replayExchange(recording: Recording, request: RecordedRequest): Promise<string> {
+    const exchanges = await loadRecording(recording);
+    const key = JSON.stringify(request);
+    const matches = exchanges
+        .map((exchange, index) => ({ exchange, index }))
+        .filter(({ exchange }) => JSON.stringify(exchange.request) === key);
+    const match = matches.find(({ index }) => !recording.replayed.has(index)) ?? matches[matches.length - 1];
+
+    if (!match) {
+        throw new ProviderError(
+            `Request does not match any exchange in recording "${recording.path}".\n${describeReplayMismatch(exchanges, request)}`,
+            "REPLAY_MISMATCH",
+            { hint: "The prompt changed since the recording was made. Re-record it with --record <file>." }
+        );
+    }
+
+    recording.replayed.add(match.index);
+    return match.exchange.response;
+}
+
+export function withRecording(provider: LlmProvider, recording: Recording | null | undefined): LlmProvider {
+    if (!recording) return provider;
+
+    if (recording.mode === "record") {
+        return {
+            ...provider,
+            chat: async (request) => {
+                const response = await provider.chat(request);
+                await recordExchange(recording, { request: toRecordedRequest(request), response });
+                return response;
+            },
+            contextLength: async (model, timeoutMs) => {
+                const length = await provider.contextLength(model, timeoutMs);
+                if (length !== null) recording.contextLengths[model] = length;
+                return length;
+            }
+        };
+    }
+
+    return {
+        ...provider,
+        chat: async (request) => {
+            const response = await replayExchange(recording, toRecordedRequest(request));
+            request.onProgress?.(response);
+            return response;
+        },
+        listModels: async () => [...new Set((await loadRecording(recording)).map((exchange) => exchange.request.model))],
+        healthCheck: async () => {
+            await loadRecording(recording);
+        },
+        contextLength: async (model) => {
+            await loadRecording(recording);
+            return recording.contextLengths[model] ?? null;
+        }
+    };
+}
@@ -0,0 +1,159 @@
+export type RedactedDiff = {
+    diff: string;
+    redactions: Record<string, number>;
+};
+
+type SecretRule = {
+    label: string;
+    pattern: RegExp;
+    valueOnly?: boolean;
+};
+
+const UNKNOWN_FILE = "(diff)";
+const MIN_ENTROPY_TOKEN_LENGTH = 24;
+const MIN_TOKEN_ENTROPY = 4;
+const PRIVATE_KEY_BEGIN = /-----BEGIN [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----/;
+const PRIVATE_KEY_END = /-----END [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----/;
+const RANDOM_TOKEN = new RegExp(`[A-Za-z0-9_+=-]{${MIN_ENTROPY_TOKEN_LENGTH},}`, "g");
+const QUOTED_LITERAL = /(["'`])((?:\\.|(?!\1)[^\\])*)\1/g;
+const ASSIGNED_VALUE = new RegExp(`([:=]\\s*)([A-Za-z0-9_+/=-]{${MIN_ENTROPY_TOKEN_LENGTH},})(?![\\w(.])`, "g");
+
+const SECRET_RULES: SecretRule[] = [
+    { label: "aws-access-key", pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[A-Z0-9]{16}\b/g },
+    { label: "github-token", pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g },
+    { label: "slack-token", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+    { label: "api-key", pattern: /\bsk-[A-Za-z0-9_-]{20,}/g },
+    { label: "jwt", pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+    {
+        label: "secret",
+        pattern: /((?:api[_-]?key|secret|token|passw(?:or)?d|pwd|access[_-]?key|credentials?)[\w-]*["']?\s*[:=]\s*["']?)([A-Za-z0-9_\-+/=.]{8,})(?![A-Za-z0-9_\-+/=.(])/gi,
+        valueOnly: true
+    }
+];
+
+function placeholder(label: string): string {
+    return `[REDACTED:${label}]`;
+}
+
+function shannonEntropy(value: string): number {
+    const counts = new Map<string, number>();
+    for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+    let entropy = 0;
+    for (const count of counts.values()) {
+        const probability = count / value.length;
+        entropy -= probability * Math.log2(probability);
+    }
+    return entropy;
+}
+
+function isIdentifierShaped(token: string): boolean {
+    if (!/^[A-Za-z_$][\w$]*$/.test(token)) return false;
+    const letters = token.replace(/[^A-Za-z]/g, "").length;
+    const wordLetters = (token.match(/[A-Z]?[a-z]{2,}|[A-Z]{3,}(?![a-z])/g) ?? [])
+        .reduce((total, word) => total + word.length, 0);
+    return wordLetters >= letters * 0.75;
+}
+
+function looksRandom(token: string): boolean {
+    return !isIdentifierShaped(token)
+        && /[a-z]/.test(token)
+        && /[A-Z]/.test(token)
+        && /\d/.test(token)
+        && shannonEntropy(token) >= MIN_TOKEN_ENTROPY;
+}
+
+function redactLine(line: string, customPatterns: RegExp[]): { line: string; count: number } {
+    let count = 0;
+    let redacted = line;
+
+    for (const rule of SECRET_RULES) {
+        redacted = redacted.replace(rule.pattern, (match: string, prefix?: string, value?: string) => {
+            if (!rule.valueOnly) {
+                count += 1;
+                return placeholder(rule.label);
+            }
+            if (!value || !/\d/.test(value) || !/[A-Za-z]/.test(value)) return match;
+            count += 1;
+            return `${prefix}${placeholder(rule.label)}`;
+        });
+    }
+
+    for (const pattern of customPatterns) {
+        redacted = redacted.replace(pattern, () => {
+            count += 1;
+            return placeholder("custom");
+        });
+    }
+
+    const redactTokens = (text: string): string => text.replace(RANDOM_TOKEN, (token) => {
+        if (!looksRandom(token)) return token;
+        count += 1;
+        return placeholder("token");
+    });
+    redacted = redacted
+        .replace(QUOTED_LITERAL, (_, quote: string, body: string) => `${quote}${redactTokens(body)}${quote}`)
+        .replace(ASSIGNED_VALUE, (_, prefix: string, value: string) => `${prefix}${redactTokens(value)}`);
+
+    return { line: redacted, count };
+}
+
+function redactChunk(chunk: string, customPatterns: RegExp[]): { text: string; count: number } {
+    const output: string[] = [];
+    let count = 0;
+    let inPrivateKey = false;
+    let inHeader = chunk.startsWith("diff --git ");
+
+    for (const line of chunk.split("\n")) {
+        if (inPrivateKey) {
+            if (PRIVATE_KEY_END.test(line)) inPrivateKey = false;
+            continue;
+        }
+        if (line.startsWith("@@")) inHeader = false;
+        if (inHeader) {
+            output.push(line);
+            continue;
+        }
+        const hunkHeader = line.match(/^(@@.*?@@)(.*)$/);
+        if (hunkHeader) {
+            // Git appends the enclosing source line after the range, and that text can hold a secret.
+            const redacted = redactLine(hunkHeader[2], customPatterns);
+            output.push(`${hunkHeader[1]}${redacted.line}`);
+            count += redacted.count;
+            continue;
+        }
+        if (PRIVATE_KEY_BEGIN.test(line)) {
+            inPrivateKey = !PRIVATE_KEY_END.test(line);
+            output.push(`${line.slice(0, 1)}${placeholder("private-key")}`);
+            count += 1;
+            continue;
+        }
+
+        const redacted = redactLine(line, customPatterns);
+        output.push(redacted.line);
+        count += redacted.count;
+    }
+
+    return { text: output.join("\n"), count };
+}
+
+export function compileRedactPatterns(patterns: string[]): RegExp[] {
+    return patterns.map((pattern) => new RegExp(pattern, "g"));
+}
+
+export function redactSecrets(diff: string, customPatterns: RegExp[] = []): RedactedDiff {
+    const redactions: Record<string, number> = {};
+    const chunks = diff.split(/^(?=diff --git )/m).map((chunk) => {
+        const { text, count } = redactChunk(chunk, customPatterns);
+        if (count > 0) {
+            const path = chunk.match(/^diff --git a\/.+? b\/(.+)$/m)?.[1]?.trim() ?? UNKNOWN_FILE;
+            redactions[path] = (redactions[path] ?? 0) + count;
+        }
+        return text;
+    });
+
+    return { diff: chunks.join(""), redactions };
+}
+
+export function countRedactions(redactions: Record<string, number>): number {
+    return Object.values(redactions).reduce((total, count) => total + count, 0);
+}
@@ -0,0 +1,51 @@
+const MIN_WORD_LENGTH = 3;
+const MATCH_PREFIX_LENGTH = 5;
+
+const INJECTION_PATTERN = /\b(?:ignore|disregard|forget|override)\b.{0,40}\b(?:instructions?|prompts?|rules?|context)\b|\b(?:you are now|system prompt|reply with|respond with|output only|new instructions?)\b|-{3} ?(?:BEGIN|END) [A-Z ]+-{3}/i;
+
+const STOP_WORDS = new Set([
+    "add", "added", "adds", "and", "are", "all", "any", "but", "can", "change", "changes", "code", "for",
+    "from", "has", "have", "into", "its", "make", "more", "new", "not", "now", "only", "out", "the", "then",
+    "this", "that", "use", "uses", "via", "was", "when", "who", "why", "will", "with", "without", "update",
+    "updates", "improve", "fix", "fixes", "remove", "removes", "refactor", "support", "handle", "ensure",
+    "allow", "set", "get", "also", "some", "file", "files", "instead", "feat", "docs", "chore", "test",
+    "tests", "build", "perf", "style", "refs"
+]);
+
+function splitWords(text: string): string[] {
+    return text
+        .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter((word) => word.length >= MIN_WORD_LENGTH);
+}
+
+function stem(word: string): string {
+    return word.slice(0, MATCH_PREFIX_LENGTH);
+}
+
+function isChangedLine(line: string): boolean {
+    return (line.startsWith("+") && !line.startsWith("+++")) || (line.startsWith("-") && !line.startsWith("---"));
+}
+
+export function looksLikeInjection(text: string): boolean {
+    return INJECTION_PATTERN.test(text);
+}
+
+export function buildChangeVocabulary(files: string[], diff: string): Set<string> {
+    const lines = diff
+        .split("\n")
+        .filter((line) => isChangedLine(line) || line.startsWith("diff --git ") || line.startsWith("@@"))
+        .filter((line) => !looksLikeInjection(line));
+    return new Set([...files, ...lines].flatMap(splitWords).map(stem));
+}
+
+export function relatesToChanges(message: string, vocabulary: Set<string>): boolean {
+    const description = message
+        .replace(/^[a-z]+(?:\([^)]*\))?!?:\s*/i, "")
+        .replace(/^Refs\s.*$/gm, "");
+    const words = splitWords(description)
+        .filter((word) => !STOP_WORDS.has(word))
+        .map(stem);
+    return words.length === 0 || words.some((word) => vocabulary.has(word));
+}
@@ -1,35 +1,148 @@
-import { inferScopeFromFiles, inferTicketFromBranch } from "./context.js";
-import { getCurrentBranch, getStagedDiff, getStagedFiles } from "./git.js";
-import { readHistory, resolveHistoryPath } from "./history.js";
-import { clampDiff } from "./util.js";
-import { inferTypeFromDiff } from "./validation.js";
+import { detectBreakingChanges } from "./breaking-changes.js";
+import { collectOwners, loadCodeowners } from "./codeowners.js";
+import { inferScope, inferTicketFromBranch } from "./context.js";
+import { buildDiffDigest, buildDiffGroups, excludeDiffFiles } from "./diff-digest.js";
+import { ExitCode } from "./exit-codes.js";
+import { getCurrentBranch, getRecentCommits, getRepoRoot, getStagedChanges, getStagedDiff } from "./git.js";
+import { createPathMatcher } from "./glob.js";
+import { readHistory, resolveHistoryPath, type HistoryEntry } from "./history.js";
+import { getActiveModel } from "./model-fallback.js";
+import {
+    HISTORY_LEARNING_LIMIT,
+    selectRelevantHistory,
+    suggestTypeFromHistory,
+    toPathHistoryEntry,
+    type PathHistoryEntry
+} from "./path-history.js";
+import { buildMessages } from "./prompt.js";
+import { createProvider } from "./provider.js";
+import { compileRedactPatterns, countRedactions, redactSecrets } from "./redaction.js";
+import { resolveCachePath } from "./response-cache.js";
+import { annotateStagedChanges } from "./staged-changes.js";
+import { extractTouchedSymbols } from "./symbols.js";
+import { classifyCommitType } from "./type-classifier.js";
+import { buildPromptBudget, estimateMessageTokens, resolveMaxDiffChars } from "./token-budget.js";
+import { WorkflowError } from "./workflow-errors.js";
+import { detectWorkspaces } from "./workspaces.js";
 import type { RepoContext, ResolvedWorkflowOptions } from "./workflow.js";
 
+async function resolveContextTokens(options: ResolvedWorkflowOptions): Promise<number | null> {
+    if (options.provider === "ollama" && options.modelOptions.numCtx !== undefined) return options.modelOptions.numCtx;
+
+    // Without a known window the diff falls back to --max-chars, so a failed lookup must not fail the run.
+    try {
+        return await createProvider(options).contextLength(
+            getActiveModel(options.modelChain),
+            Math.min(options.timeoutMs, 10000)
+        );
+    } catch {
+        return null;
+    }
+}
+
+function formatRedactions(redactions: Record<string, number>): string {
+    return Object.entries(redactions).map(([file, count]) => `${file} (${count})`).join(", ");
+}
+
+async function readPathHistory(entries: HistoryEntry[]): Promise<PathHistoryEntry[]> {
+    if (entries.length > 0) return entries.map((entry) => toPathHistoryEntry(entry.message, entry.files));
+    return (await getRecentCommits(HISTORY_LEARNING_LIMIT)).map((commit) => toPathHistoryEntry(commit.subject, commit.files));
+}
+
+function usesMapReduce(options: ResolvedWorkflowOptions, diffChars: number, maxDiffChars: number): boolean {
+    if (options.strategy === "auto") return diffChars >= maxDiffChars * options.mapReduceFactor;
+    return options.strategy === "map-reduce";
+}
+
 export async function loadRepoContext(
     gitDir: string,
     options: ResolvedWorkflowOptions
 ): Promise<RepoContext> {
     const stagedDiff = await getStagedDiff();
-    const files = await getStagedFiles();
+    const { diff: promptDiff, redactions } = redactSecrets(
+        excludeDiffFiles(stagedDiff, createPathMatcher(options.promptExclude)),
+        compileRedactPatterns(options.redactPatterns)
+    );
+    if (options.blockOnSecrets && countRedactions(redactions) > 0) {
+        throw new WorkflowError(
+            ExitCode.GitContextError,
+            `Staged changes look like they contain secrets: ${formatRedactions(redactions)}.`,
+            {
+                code: "SECRETS_FOUND",
+                hint: "Unstage the secrets, or set blockOnSecrets to false to send the diff with placeholders instead."
+            }
+        );
+    }
+
+    const changes = annotateStagedChanges(await getStagedChanges(), stagedDiff);
+    const files = changes.map((change) => change.path);
+    const touchedSymbols = extractTouchedSymbols(promptDiff);
+    const breakingChanges = detectBreakingChanges(promptDiff);
     const branch = await getCurrentBranch();
-    const suggestedScope = inferScopeFromFiles(files, options.policy.scopeMap);
+    const historyPath = options.historyEnabled ? resolveHistoryPath(gitDir) : null;
+    const historyEntries = historyPath ? await readHistory(historyPath, HISTORY_LEARNING_LIMIT) : [];
+    const pathHistory = historyPath ? await readPathHistory(historyEntries) : [];
+    const typeInference = classifyCommitType({ diff: stagedDiff, changes, branch })
+        ?? suggestTypeFromHistory(files, pathHistory);
+    const repoRoot = await getRepoRoot();
+    const codeowners = await loadCodeowners(repoRoot);
+    const scopeInference = inferScope(files, {
+        scopeMap: options.policy.scopeMap,
+        codeowners,
+        ownerScopes: options.policy.ownerScopes,
+        packages: await detectWorkspaces(repoRoot),
+        workspaceScope: options.workspaceScope,
+        pathHistory
+    });
+    const suggestedScope = scopeInference?.scope ?? null;
     const effectiveScope = options.scope ?? suggestedScope ?? options.defaultScope;
     const ticket = options.ticket ?? inferTicketFromBranch(branch, options.ticketPattern);
-    const historyPath = options.historyEnabled ? resolveHistoryPath(gitDir) : null;
-    const recentExamples = historyPath
-        ? (await readHistory(historyPath, options.historySampleSize)).map((entry) => entry.message)
-        : [];
+    const recentExamples = (options.historySelection === "relevant"
+        ? selectRelevantHistory(historyEntries, files, effectiveScope, options.historySampleSize)
+        : historyEntries.slice(0, options.historySampleSize)).map((entry) => entry.message);
+
+    const baseTokens = estimateMessageTokens(buildMessages({
+        diff: "",
+        files,
+        changes,
+        touchedSymbols,
+        breakingChanges,
+        branch,
+        suggestedScope: effectiveScope,
+        ticket,
+        recentExamples,
+        forcedType: options.type,
+        forcedScope: options.scope,
+        knownScopes: options.knownScopes,
+        candidateCount: options.candidates,
+        policy: options.policy
+    }));
+    const contextTokens = await resolveContextTokens(options);
+    const maxDiffChars = resolveMaxDiffChars(options.maxChars, contextTokens, baseTokens);
+    const digest = buildDiffDigest(promptDiff, maxDiffChars);
 
     return {
         gitDir,
-        diff: clampDiff(stagedDiff, options.maxChars),
+        diff: digest.text,
         files,
+        changes,
+        touchedSymbols,
+        breakingChanges,
         branch,
+        owners: collectOwners(files, codeowners),
         suggestedScope,
+        scopeInference,
         effectiveScope,
         ticket,
         recentExamples,
-        expectedType: options.type ?? inferTypeFromDiff(stagedDiff),
-        historyPath
+        expectedType: options.type ?? typeInference?.type ?? null,
+        typeInference,
+        historyPath,
+        cachePath: options.cacheEnabled ? resolveCachePath(gitDir) : null,
+        promptBudget: buildPromptBudget({ contextTokens, baseTokens, diff: promptDiff, digest, maxDiffChars }),
+        redactions,
+        diffGroups: usesMapReduce(options, promptDiff.length, maxDiffChars)
+            ? buildDiffGroups(promptDiff, maxDiffChars)
+            : null
     };
 }
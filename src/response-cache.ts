@@ -0,0 +1,89 @@
+import { createHash, randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+
+export const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+export const MAX_CACHE_ENTRIES = 50;
+
+type CacheEntry = {
+    key: string;
+    createdAt: number;
+    output: string;
+};
+
+const pendingWrites = new Map<string, Promise<void>>();
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function parseCacheEntry(value: unknown): CacheEntry | null {
+    if (!isRecord(value)) return null;
+    if (typeof value.key !== "string" || typeof value.output !== "string") return null;
+    if (typeof value.createdAt !== "number" || !Number.isFinite(value.createdAt)) return null;
+    return { key: value.key, createdAt: value.createdAt, output: value.output };
+}
+
+function isFresh(entry: CacheEntry, now: number): boolean {
+    return entry.createdAt <= now && now - entry.createdAt < CACHE_TTL_MS;
+}
+
+async function readCacheEntries(cachePath: string): Promise<CacheEntry[]> {
+    try {
+        const parsed = JSON.parse(await readFile(cachePath, "utf8")) as unknown;
+        if (!Array.isArray(parsed)) return [];
+        return parsed
+            .map(parseCacheEntry)
+            .filter((entry): entry is CacheEntry => entry !== null);
+    } catch {
+        return [];
+    }
+}
+
+export function resolveCachePath(gitDir: string): string {
+    return join(gitDir, "commitgen", "response-cache.json");
+}
+
+export function createCacheKey(request: unknown): string {
+    return createHash("sha256").update(JSON.stringify(request)).digest("hex");
+}
+
+export async function readCachedResponse(
+    cachePath: string,
+    key: string,
+    now = Date.now()
+): Promise<string | null> {
+    const entries = await readCacheEntries(cachePath);
+    const entry = entries.find((candidate) => candidate.key === key);
+    return entry && isFresh(entry, now) ? entry.output : null;
+}
+
+async function saveCachedResponse(cachePath: string, key: string, output: string, now: number): Promise<void> {
+    const entries = (await readCacheEntries(cachePath))
+        .filter((entry) => entry.key !== key && isFresh(entry, now))
+        .slice(-(MAX_CACHE_ENTRIES - 1));
+    entries.push({ key, createdAt: now, output });
+
+    // The cache is only an optimization, so a failed write must never fail the run.
+    try {
+        await mkdir(dirname(cachePath), { recursive: true });
+        const tempPath = `${cachePath}.${process.pid}.${randomUUID()}.tmp`;
+        await writeFile(tempPath, JSON.stringify(entries), "utf8");
+        await rename(tempPath, cachePath);
+    } catch {
+        return;
+    }
+}
+
+export async function writeCachedResponse(
+    cachePath: string,
+    key: string,
+    output: string,
+    now = Date.now()
+): Promise<void> {
+    const write = (pendingWrites.get(cachePath) ?? Promise.resolve())
+        .then(async () => await saveCachedResponse(cachePath, key, output, now));
+    pendingWrites.set(cachePath, write);
+    await write;
+    if (pendingWrites.get(cachePath) === write) pendingWrites.delete(cachePath);
+}
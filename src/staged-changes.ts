@@ -0,0 +1,78 @@
+import { isBinarySection, parseDiffSections } from "./diff-digest.js";
+
+export type StagedChangeStatus = "added" | "modified" | "deleted" | "renamed" | "copied" | "type-changed";
+
+export type StagedChange = {
+    path: string;
+    status: StagedChangeStatus;
+    previousPath: string | null;
+    similarity: number | null;
+    modeChange: { from: string; to: string } | null;
+    binary: boolean;
+};
+
+const STATUS_CODES: Record<string, StagedChangeStatus> = {
+    A: "added",
+    M: "modified",
+    D: "deleted",
+    R: "renamed",
+    C: "copied",
+    T: "type-changed"
+};
+
+export function parseNameStatus(output: string): StagedChange[] {
+    const fields = output.split("\0").filter((field) => field.length > 0);
+    const changes: StagedChange[] = [];
+
+    for (let index = 0; index < fields.length; index += 1) {
+        const code = fields[index].trim();
+        const status = STATUS_CODES[code.charAt(0)] ?? "modified";
+        const paired = status === "renamed" || status === "copied";
+        const previousPath = paired ? fields[index + 1] ?? null : null;
+        const path = fields[index + (paired ? 2 : 1)];
+        index += paired ? 2 : 1;
+        if (!path) continue;
+
+        const similarity = Number.parseInt(code.slice(1), 10);
+        changes.push({
+            path,
+            status,
+            previousPath,
+            similarity: paired && Number.isFinite(similarity) ? similarity : null,
+            modeChange: null,
+            binary: false
+        });
+    }
+
+    return changes;
+}
+
+export function annotateStagedChanges(changes: StagedChange[], diff: string): StagedChange[] {
+    const sections = new Map(parseDiffSections(diff).map((section) => [section.path, section]));
+    return changes.map((change) => {
+        const section = sections.get(change.path);
+        if (!section) return change;
+
+        const from = section.header.find((line) => line.startsWith("old mode "))?.slice("old mode ".length);
+        const to = section.header.find((line) => line.startsWith("new mode "))?.slice("new mode ".length);
+        return {
+            ...change,
+            modeChange: from && to ? { from, to } : null,
+            binary: isBinarySection(section)
+        };
+    });
+}
+
+export function isPureRename(change: StagedChange): boolean {
+    return change.status === "renamed" && change.similarity === 100 && change.modeChange === null;
+}
+
+export function formatStagedChange(change: StagedChange): string {
+    const target = change.previousPath ? `${change.previousPath} -> ${change.path}` : change.path;
+    const details = [
+        change.similarity !== null ? `${change.similarity}% similar` : null,
+        change.modeChange ? `mode ${change.modeChange.from} -> ${change.modeChange.to}` : null,
+        change.binary ? "binary" : null
+    ].filter((detail): detail is string => detail !== null);
+    return `${change.status}: ${target}${details.length > 0 ? ` (${details.join(", ")})` : ""}`;
+}
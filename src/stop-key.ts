@@ -0,0 +1,42 @@
+export type KeyInput = {
+    isTTY?: boolean;
+    isRaw?: boolean;
+    setRawMode?: (mode: boolean) => unknown;
+    on: (event: "data", listener: (data: Buffer) => void) => unknown;
+    off: (event: "data", listener: (data: Buffer) => void) => unknown;
+    resume: () => unknown;
+    pause: () => unknown;
+};
+
+const CTRL_C = 0x03;
+
+export function watchForStopKey(input: KeyInput, onStop: () => void): (() => void) | null {
+    if (!input.isTTY || typeof input.setRawMode !== "function") return null;
+
+    const setRawMode = input.setRawMode.bind(input);
+    const wasRaw = Boolean(input.isRaw);
+    let watching = true;
+
+    const release = (): void => {
+        if (!watching) return;
+        watching = false;
+        input.off("data", onData);
+        setRawMode(wasRaw);
+        input.pause();
+    };
+
+    function onData(data: Buffer): void {
+        release();
+        // Raw mode swallows SIGINT, so re-raise it to keep Ctrl+C behaving as usual.
+        if (data.includes(CTRL_C)) {
+            process.kill(process.pid, "SIGINT");
+            return;
+        }
+        onStop();
+    }
+
+    setRawMode(true);
+    input.resume();
+    input.on("data", onData);
+    return release;
+}
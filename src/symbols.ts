@@ -0,0 +1,80 @@
+import { parseDiffSections } from "./diff-digest.js";
+
+type SymbolLanguage = "script" | "python" | "go" | "config";
+
+const MIN_SYMBOL_LENGTH = 3;
+
+const LANGUAGES: Array<[RegExp, SymbolLanguage]> = [
+    [/\.[cm]?[jt]sx?$/i, "script"],
+    [/\.py$/i, "python"],
+    [/\.go$/i, "go"],
+    [/\.(?:json|jsonc|ya?ml)$/i, "config"]
+];
+
+const DECLARATIONS: Record<SymbolLanguage, RegExp[]> = {
+    script: [
+        /^\s*export\s+(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|interface|type|enum|const|let|var)\s+([A-Za-z_$][\w$]*)/,
+        /^\s*(?:async\s+)?function\*?\s+([A-Za-z_$][\w$]*)/,
+        /^\s*(?:abstract\s+)?(?:class|interface|enum)\s+([A-Za-z_$][\w$]*)/
+    ],
+    python: [
+        /^\s*(?:async\s+)?def\s+([A-Za-z_]\w*)/,
+        /^\s*class\s+([A-Za-z_]\w*)/
+    ],
+    go: [
+        /^func\s+(?:\([^)]*\)\s*)?([A-Za-z_]\w*)/,
+        /^type\s+([A-Za-z_]\w*)/
+    ],
+    config: [
+        /^\s*"([^"]+)"\s*:/,
+        /^\s*(?:-\s+)?([A-Za-z_][\w.-]*)\s*:(?:\s|$)/
+    ]
+};
+
+const EXPORT_LIST = /^\s*export\s*(?:type\s*)?\{([^}]*)\}/;
+
+function detectLanguage(path: string): SymbolLanguage | null {
+    return LANGUAGES.find(([pattern]) => pattern.test(path))?.[1] ?? null;
+}
+
+function isChangedLine(line: string): boolean {
+    return (line.startsWith("+") && !line.startsWith("+++")) || (line.startsWith("-") && !line.startsWith("---"));
+}
+
+function findSymbols(code: string, language: SymbolLanguage): string[] {
+    if (language === "script") {
+        const exported = code.match(EXPORT_LIST)?.[1];
+        if (exported) {
+            return exported
+                .split(",")
+                .map((entry) => entry.trim().split(/\s+/).pop() ?? "")
+                .filter((name) => /^[A-Za-z_$][\w$]*$/.test(name));
+        }
+    }
+
+    for (const pattern of DECLARATIONS[language]) {
+        const name = code.match(pattern)?.[1];
+        if (name) return [name];
+    }
+    return [];
+}
+
+export function extractTouchedSymbols(diff: string): string[] {
+    const symbols = new Set<string>();
+
+    for (const section of parseDiffSections(diff)) {
+        const language = detectLanguage(section.path);
+        if (!language) continue;
+
+        for (const line of section.hunks.flat()) {
+            const context = line.match(/^@@ [^@]+ @@ (.+)$/)?.[1];
+            const code = context ?? (isChangedLine(line) ? line.slice(1) : null);
+            if (code === null) continue;
+            for (const symbol of findSymbols(code, language)) {
+                if (symbol.length >= MIN_SYMBOL_LENGTH) symbols.add(symbol);
+            }
+        }
+    }
+
+    return [...symbols];
+}
@@ -0,0 +1,62 @@
+import type { DiffDigest } from "./diff-digest.js";
+import type { ChatMessage } from "./provider.js";
+
+export const CHARS_PER_TOKEN = 4;
+export const RESPONSE_RESERVE_TOKENS = 512;
+export const MIN_DIFF_BUDGET_CHARS = 500;
+
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const MIN_REQUEST_CONTEXT_TOKENS = 2048;
+
+export type PromptBudget = {
+    contextTokens: number | null;
+    promptTokens: number;
+    diffTokens: number;
+    diffChars: number;
+    maxDiffChars: number;
+    truncated: boolean;
+};
+
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(messages: ChatMessage[]): number {
+    return messages.reduce((total, message) => total + MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content), 0);
+}
+
+export function resolveMaxDiffChars(
+    maxChars: number,
+    contextTokens: number | null,
+    baseTokens: number
+): number {
+    if (contextTokens === null) return maxChars;
+    const availableTokens = contextTokens - baseTokens - RESPONSE_RESERVE_TOKENS;
+    return Math.min(maxChars, Math.max(MIN_DIFF_BUDGET_CHARS, availableTokens * CHARS_PER_TOKEN));
+}
+
+export function buildPromptBudget(opts: {
+    contextTokens: number | null;
+    baseTokens: number;
+    diff: string;
+    digest: DiffDigest;
+    maxDiffChars: number;
+}): PromptBudget {
+    const diffTokens = estimateTokens(opts.digest.text);
+    return {
+        contextTokens: opts.contextTokens,
+        promptTokens: opts.baseTokens + diffTokens,
+        diffTokens,
+        diffChars: opts.diff.length,
+        maxDiffChars: opts.maxDiffChars,
+        truncated: opts.digest.truncated
+    };
+}
+
+// Rounded up to a power of two so similar diffs keep the same window and Ollama does not reload the model.
+export function resolveRequestContextTokens(budget: PromptBudget): number | null {
+    if (budget.contextTokens === null) return null;
+    let tokens = MIN_REQUEST_CONTEXT_TOKENS;
+    while (tokens < budget.promptTokens + RESPONSE_RESERVE_TOKENS) tokens *= 2;
+    return Math.min(tokens, budget.contextTokens);
+}
@@ -0,0 +1,156 @@
+import { parseDiffSections } from "./diff-digest.js";
+import { isPureRename, type StagedChange } from "./staged-changes.js";
+import type { AllowedType } from "./validation.js";
+
+export type TypeInference = {
+    type: AllowedType;
+    confidence: number;
+    source: "diff" | "branch" | "history";
+    reasons: string[];
+};
+
+type FileCategory = "docs" | "test" | "ci" | "build" | "chore" | "perf";
+
+const DOMINANT_SHARE = 0.6;
+const BRANCH_CONFIDENCE = 0.8;
+const FIX_BRANCH = /^(?:[\w.-]+\/)?(?:fix|bugfix|hotfix)[/-]/i;
+const CACHING_LINE = /^\+.*\b(?:memoi[sz]e\w*|cache[ds]?|caching|lru)\b/i;
+
+function isDocumentationFile(path: string): boolean {
+    return path.startsWith("docs/")
+        || path.endsWith(".md")
+        || path.endsWith(".mdx")
+        || path.endsWith(".rst")
+        || path.includes("/docs/");
+}
+
+function isTestFile(path: string): boolean {
+    return path.includes("/test/")
+        || path.includes("/tests/")
+        || path.includes("__tests__")
+        || path.endsWith(".spec.ts")
+        || path.endsWith(".test.ts")
+        || path.endsWith(".spec.js")
+        || path.endsWith(".test.js");
+}
+
+function isCiFile(path: string): boolean {
+    return path.startsWith(".github/workflows/")
+        || path.startsWith(".gitlab-ci")
+        || path.startsWith(".circleci/")
+        || path.startsWith("azure-pipelines");
+}
+
+function isBuildFile(path: string): boolean {
+    return path === "package-lock.json"
+        || path === "yarn.lock"
+        || path === "pnpm-lock.yaml"
+        || path === "package.json"
+        || path === "dockerfile"
+        || path === "docker-compose.yml"
+        || path.endsWith("/dockerfile")
+        || path.endsWith("/docker-compose.yml");
+}
+
+function isToolingFile(path: string): boolean {
+    const name = path.split("/").pop() ?? path;
+    return /^\.(?:eslintrc|prettierrc|editorconfig|gitignore|gitattributes|npmrc|nvmrc|nycrc|stylelintrc|lintstagedrc)/.test(name)
+        || /^(?:eslint|prettier|vitest|jest|babel|commitlint|lint-staged)\.config\.[cm]?[jt]s$/.test(name)
+        || /^tsconfig(?:\.[\w-]+)?\.json$/.test(name)
+        || name === "renovate.json"
+        || path.startsWith(".husky/")
+        || path.startsWith(".vscode/");
+}
+
+function isBenchmarkFile(path: string): boolean {
+    return /(?:^|\/)bench(?:mark)?s?\//.test(path) || /\.bench\.[cm]?[jt]sx?$/.test(path);
+}
+
+const FILE_CATEGORIES: Array<[FileCategory, (path: string) => boolean]> = [
+    ["docs", isDocumentationFile],
+    ["test", isTestFile],
+    ["ci", isCiFile],
+    ["build", isBuildFile],
+    ["chore", isToolingFile],
+    ["perf", isBenchmarkFile]
+];
+
+const CATEGORY_LABELS: Record<FileCategory, string> = {
+    docs: "documentation",
+    test: "test",
+    ci: "CI",
+    build: "build",
+    chore: "tooling config",
+    perf: "benchmark or caching"
+};
+
+function collectFiles(diff: string, changes: StagedChange[]): string[] {
+    if (changes.length > 0) return changes.map((change) => change.path.toLowerCase());
+    return [...diff.matchAll(/^diff --git a\/(.+?) b\/(.+)$/gm)]
+        .map((match) => match[2]?.trim().toLowerCase())
+        .filter((file): file is string => Boolean(file));
+}
+
+function plural(count: number, word: string): string {
+    return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+export function classifyCommitType(input: {
+    diff: string;
+    changes?: StagedChange[];
+    branch?: string | null;
+}): TypeInference | null {
+    const changes = input.changes ?? [];
+    const files = collectFiles(input.diff, changes);
+
+    for (const [category, matches] of FILE_CATEGORIES) {
+        if (files.length > 0 && files.every(matches)) {
+            return {
+                type: category,
+                confidence: 1,
+                source: "diff",
+                reasons: [`${plural(files.length, "changed file")}, all ${CATEGORY_LABELS[category]}`]
+            };
+        }
+    }
+
+    if (changes.length > 0 && changes.every(isPureRename)) {
+        return {
+            type: "refactor",
+            confidence: 1,
+            source: "diff",
+            reasons: [`${plural(changes.length, "change")}, all pure renames`]
+        };
+    }
+
+    const branch = input.branch?.trim();
+    if (branch && FIX_BRANCH.test(branch)) {
+        return { type: "fix", confidence: BRANCH_CONFIDENCE, source: "branch", reasons: [`branch ${branch} names a fix`] };
+    }
+
+    if (files.length === 0) return null;
+
+    const sections = new Map(parseDiffSections(input.diff).map((section) => [section.path.toLowerCase(), section]));
+    const weights = new Map<FileCategory | null, number>();
+    let total = 0;
+    for (const file of files) {
+        const section = sections.get(file);
+        const weight = Math.max(1, (section?.insertions ?? 0) + (section?.deletions ?? 0));
+        const category = FILE_CATEGORIES.find(([, matches]) => matches(file))?.[0] ?? null;
+        const caching = category ? 0 : Math.min(weight, section?.hunks.flat().filter((line) => CACHING_LINE.test(line)).length ?? 0);
+        if (caching > 0) weights.set("perf", (weights.get("perf") ?? 0) + caching);
+        weights.set(category, (weights.get(category) ?? 0) + weight - caching);
+        total += weight;
+    }
+
+    const [category, weight] = [...weights.entries()].sort((left, right) => right[1] - left[1])[0];
+    const share = weight / total;
+    if (!category || share < DOMINANT_SHARE) return null;
+
+    return {
+        type: category,
+        confidence: Math.round(share * 100) / 100,
+        source: "diff",
+        reasons: [`${weight} of ${plural(total, "changed line")} are in ${CATEGORY_LABELS[category]} files`]
+    };
+}
@@ -165,6 +165,10 @@ function compactSource(source: DiagnosticSource): string {
             return "diff";
         case "changed-files":
             return "files";
+        case "codeowners":
+            return "codeowners";
+        case "history":
+            return "history";
         case "default-config":
             return "default";
         case "branch":
@@ -239,11 +243,62 @@ function rankingSignals(candidate: CandidateDiagnostics): string[] {
     if (candidate.ranking.expectedTypeMatch) signals.push("type-match");
     if (candidate.ranking.expectedScopeMatch) signals.push("scope-match");
     if (candidate.ranking.ticketFooterPresent) signals.push("ticket-footer");
+    if (candidate.ranking.touchedSymbolMentioned) signals.push("symbol-match");
     if (candidate.ranking.subjectWithinLimit) signals.push("subject-fit");
     if (candidate.ranking.genericDescriptionPenalty) signals.push("generic-penalty");
+    if (candidate.ranking.unknownReferencePenalty) signals.push("unknown-reference-penalty");
     return signals;
 }
 
+function unknownReferenceSignal(candidate: CandidateDiagnostics): string | null {
+    if (candidate.ranking.unknownReferences.length === 0) return null;
+    return `not in diff ${candidate.ranking.unknownReferences.join(", ")}`;
+}
+
+function modelFallbackSignal(context: ContextDiagnostics): string | null {
+    if (context.model.value === context.model.requested) return null;
+    return `model ${context.model.value} (fallback from ${context.model.requested})`;
+}
+
+function tokenUsageSignal(context: ContextDiagnostics): string {
+    const { tokens } = context;
+    const usage = tokens.contextWindow === null
+        ? `~${tokens.estimatedPrompt} tokens`
+        : `~${tokens.estimatedPrompt} of ${tokens.contextWindow} tokens`;
+    const diff = tokens.truncated
+        ? `diff truncated to ${tokens.maxDiffChars} of ${tokens.diffChars} chars`
+        : "full diff";
+    return `prompt ${usage}, ${diff}`;
+}
+
+function typeSignal(context: ContextDiagnostics): string | null {
+    const { value, confidence, reasons } = context.expectedType;
+    if (!value || confidence === null || reasons.length === 0) return null;
+    return `type ${value} ${Math.round(confidence * 100)}%: ${reasons.join("; ")}`;
+}
+
+function scopeSignal(context: ContextDiagnostics): string | null {
+    const { suggested, confidence, reasons } = context.scope;
+    if (!suggested || confidence === null || reasons.length === 0) return null;
+    return `scope ${suggested} ${Math.round(confidence * 100)}%: ${reasons.join("; ")}`;
+}
+
+function exampleSignal(context: ContextDiagnostics): string | null {
+    const { selection, subjects } = context.examples;
+    return subjects.length > 0 ? `examples ${selection}: ${subjects.join("; ")}` : null;
+}
+
+function redactionSignal(context: ContextDiagnostics): string | null {
+    if (context.redactions.length === 0) return null;
+    const total = context.redactions.reduce((sum, entry) => sum + entry.count, 0);
+    const files = context.redactions.map((entry) => `${entry.file} (${entry.count})`).join(", ");
+    return `redacted ${total} secret${total === 1 ? "" : "s"} in ${files}`;
+}
+
+function reviewerSignal(context: ContextDiagnostics): string | null {
+    return context.scope.owners.length > 0 ? `reviewers ${context.scope.owners.join(", ")}` : null;
+}
+
 function originSignals(context: ContextDiagnostics, candidate: CandidateDiagnostics): string[] {
     const origins: string[] = [];
     if (context.expectedType.source !== "none" && context.expectedType.value) {
@@ -330,6 +385,14 @@ export function renderExplainBlock(
         alternativesCount > 0 ? `${alternativesCount} alternative${alternativesCount === 1 ? "" : "s"}` : null
     ]);
     const origins = originSignals(context, candidate);
+    const modelFallback = modelFallbackSignal(context);
+    const tokenUsage = tokenUsageSignal(context);
+    const redaction = redactionSignal(context);
+    const typeReason = typeSignal(context);
+    const scopeReason = scopeSignal(context);
+    const reviewers = reviewerSignal(context);
+    const examples = exampleSignal(context);
+    const unknownReferences = unknownReferenceSignal(candidate);
 
     if (!ui.richLayout) {
         const lines = [
@@ -342,6 +405,28 @@ export function renderExplainBlock(
         if (origins.length > 0) {
             lines.push(`from: ${formatMetaLine(ui, origins)}`);
         }
+        if (modelFallback) {
+            lines.push(modelFallback.replace(/^model /, "model: "));
+        }
+        if (typeReason) {
+            lines.push(typeReason.replace(/^type /, "type: "));
+        }
+        if (scopeReason) {
+            lines.push(scopeReason.replace(/^scope /, "scope: "));
+        }
+        if (reviewers) {
+            lines.push(reviewers.replace(/^reviewers /, "reviewers: "));
+        }
+        if (examples) {
+            lines.push(examples.replace(/^examples (\w+):/, "examples ($1):"));
+        }
+        lines.push(tokenUsage.replace(/^prompt /, "prompt: "));
+        if (redaction) {
+            lines.push(redaction.replace(/^redacted /, "redacted: "));
+        }
+        if (unknownReferences) {
+            lines.push(unknownReferences.replace(/^not in diff /, "not in diff: "));
+        }
         return lines.join("\n");
     }
 
@@ -352,6 +437,28 @@ export function renderExplainBlock(
     if (origins.length > 0) {
         lines.push(tone(ui, formatMetaLine(ui, origins), "muted"));
     }
+    if (modelFallback) {
+        lines.push(tone(ui, modelFallback, "warning"));
+    }
+    if (typeReason) {
+        lines.push(tone(ui, typeReason, "muted"));
+    }
+    if (scopeReason) {
+        lines.push(tone(ui, scopeReason, "muted"));
+    }
+    if (reviewers) {
+        lines.push(tone(ui, reviewers, "muted"));
+    }
+    if (examples) {
+        lines.push(tone(ui, examples, "muted"));
+    }
+    lines.push(tone(ui, tokenUsage, context.tokens.truncated ? "warning" : "muted"));
+    if (redaction) {
+        lines.push(tone(ui, redaction, "warning"));
+    }
+    if (unknownReferences) {
+        lines.push(tone(ui, unknownReferences, "warning"));
+    }
 
     return renderCard(ui, "Why it won", lines, "accent");
 }
@@ -384,6 +491,11 @@ export function renderValidationBlock(
     return renderCard(ui, opts?.title ?? "Needs attention", lines, "warning");
 }
 
+function renderWarningBlock(ui: TerminalUi, warnings: string[]): string {
+    if (!ui.richLayout) return renderPlainList("warnings", warnings);
+    return renderCard(ui, "Check before committing", warnings.map((warning) => `${ui.glyphs.bullet} ${warning}`), "warning");
+}
+
 export function renderReviewScreen(
     ui: TerminalUi,
     context: ContextDiagnostics,
@@ -397,6 +509,10 @@ export function renderReviewScreen(
 ): string {
     if (!ui.richLayout) {
         const lines = [candidate.message];
+        if (candidate.warnings.length > 0) {
+            lines.push("");
+            lines.push(renderWarningBlock(ui, candidate.warnings));
+        }
         if (opts?.explain && candidate.validation.ok) {
             lines.push("");
             lines.push(renderExplainBlock(ui, context, candidate, opts.alternativesCount ?? 0));
@@ -418,6 +534,9 @@ export function renderReviewScreen(
             tone: candidate.validation.ok ? "accent" : "warning"
         })
     ];
+    if (candidate.warnings.length > 0) {
+        sections.push(renderWarningBlock(ui, candidate.warnings));
+    }
 
     if (!candidate.validation.ok) {
         sections.push(renderValidationBlock(ui, candidate.validation.errors, {
@@ -434,6 +553,14 @@ export function renderReviewScreen(
     return sections.join("\n\n");
 }
 
+export function renderStreamingPreview(ui: TerminalUi, text: string): string {
+    return tone(ui, text, "muted");
+}
+
+export function renderNotice(ui: TerminalUi, text: string): string {
+    return tone(ui, text, "warning");
+}
+
 export function renderActionSummary(ui: TerminalUi, title: string, lines: string[]): string {
     if (!ui.richLayout) {
         return renderPlainList(title, lines);
@@ -524,11 +651,14 @@ export function renderDoctorReport(ui: TerminalUi, result: DoctorResult): string
     }
 
     const failingChecks = result.checks.filter((check) => !check.ok).length;
+    const providerSection = [...sections.keys()].find((section) => section !== "Environment" && section !== "Repository");
     const out = [
         renderStateCard(ui, {
             title: "Doctor",
             headline: result.ok ? "All checks passed" : `${failingChecks} check${failingChecks === 1 ? "" : "s"} need attention`,
-            meta: result.ok ? ["environment ready", "repository ready", "ollama ready"] : ["review the failing section below"],
+            meta: result.ok
+                ? ["environment ready", "repository ready", `${(providerSection ?? "provider").toLowerCase()} ready`]
+                : ["review the failing section below"],
             tone: result.ok ? "success" : "warning"
         })
     ];
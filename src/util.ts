@@ -31,6 +31,19 @@ export function parseBoundedInteger(value: string, name: string, min: number, ma
     return parsed;
 }
 
+export function parseBoundedNumber(value: string, name: string, min: number, max: number): number {
+    const parsed = Number(value.trim());
+    if (value.trim() === "" || !Number.isFinite(parsed)) {
+        throw new Error(`${name} must be a number.`);
+    }
+
+    if (parsed < min || parsed > max) {
+        throw new Error(`${name} must be between ${min} and ${max}.`);
+    }
+
+    return parsed;
+}
+
 export function normalizeScopeName(scope: string | null | undefined): string | null {
     if (!scope) return null;
 
@@ -1,3 +1,5 @@
+import type { StagedChange } from "./staged-changes.js";
+import { classifyCommitType } from "./type-classifier.js";
 import { escapeRegExp, normalizeScopeName } from "./util.js";
 
 export type AllowedType = "feat" | "fix" | "chore" | "refactor" | "docs" | "test" | "perf" | "build" | "ci";
@@ -14,6 +16,8 @@ type ValidationOptions = {
 };
 
 const SUBJECT_REGEX = /^([a-z]+)(\([^)]+\))?!?:\s(.+)$/;
+const BREAKING_SUBJECT_REGEX = /^[A-Za-z]+(?:\([^)]+\))?!:/;
+const BREAKING_FOOTER_REGEX = /^BREAKING[ -]CHANGE:\s*\S/m;
 
 export function isAllowedType(value: string): value is AllowedType {
     return ALLOWED_TYPES_SET.has(value as AllowedType);
@@ -98,6 +102,47 @@ export function extractMessageFromModelOutput(raw: string): string {
     return normalizeMessage(stripWrappingCodeFence(candidate));
 }
 
+const JSON_STRING_ESCAPES: Record<string, string> = {
+    b: "\b",
+    f: "\f",
+    n: "\n",
+    r: "\r",
+    t: "\t"
+};
+
+export function extractPartialMessageFromModelOutput(raw: string): string {
+    const text = raw ?? "";
+    if (!text.trimStart().startsWith("{")) return text;
+
+    const start = /"message"\s*:\s*"/.exec(text);
+    if (!start) return "";
+
+    let message = "";
+    for (let index = start.index + start[0].length; index < text.length; index += 1) {
+        const char = text[index];
+        if (char === "\"") break;
+        if (char !== "\\") {
+            message += char;
+            continue;
+        }
+
+        const escaped = text[index + 1];
+        if (escaped === undefined) break;
+        if (escaped === "u") {
+            const hex = text.slice(index + 2, index + 6);
+            if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+            message += String.fromCharCode(Number.parseInt(hex, 16));
+            index += 5;
+            continue;
+        }
+
+        message += JSON_STRING_ESCAPES[escaped] ?? escaped;
+        index += 1;
+    }
+
+    return message;
+}
+
 export function extractMessageListFromModelOutput(raw: string): string[] | null {
     const noFence = stripWrappingCodeFence(raw ?? "");
     const payload = parseJsonPayload(noFence) ?? parseEmbeddedJsonPayload(noFence);
@@ -105,6 +150,12 @@ export function extractMessageListFromModelOutput(raw: string): string[] | null
     return messages && messages.length > 0 ? messages : null;
 }
 
+export function hasMessagePayload(raw: string): boolean {
+    const noFence = stripWrappingCodeFence(raw ?? "");
+    const payload = parseJsonPayload(noFence) ?? parseEmbeddedJsonPayload(noFence);
+    return Boolean(parseMessageFromPayload(payload)?.trim() || parseMessageListFromPayload(payload)?.length);
+}
+
 export function validateMessage(message: string, opts: ValidationOptions = {}): ValidationResult {
     const normalized = normalizeMessage(message);
     if (!normalized) return { ok: false, reason: "Message is empty" };
@@ -128,22 +179,8 @@ export function validateMessage(message: string, opts: ValidationOptions = {}):
     return { ok: true };
 }
 
-export function inferTypeFromDiff(diff: string): AllowedType | null {
-    const filePattern = /^diff --git a\/(.+?) b\/(.+)$/gm;
-    const files: string[] = [];
-    for (const match of diff.matchAll(filePattern)) {
-        const file = match[2]?.trim();
-        if (file) files.push(file.toLowerCase());
-    }
-
-    if (files.length === 0) return null;
-
-    if (files.every(isDocumentationFile)) return "docs";
-    if (files.every(isTestFile)) return "test";
-    if (files.every(isCiFile)) return "ci";
-    if (files.every(isBuildFile)) return "build";
-
-    return null;
+export function inferTypeFromDiff(diff: string, changes: StagedChange[] = []): AllowedType | null {
+    return classifyCommitType({ diff, changes })?.type ?? null;
 }
 
 type RepairOptions = {
@@ -152,6 +189,7 @@ type RepairOptions = {
     forcedType: AllowedType | null;
     scope: string | null;
     ticket?: string | null;
+    requireBreakingFooter?: boolean;
 };
 
 export type RepairResult = {
@@ -169,6 +207,14 @@ export function parseConventionalSubject(subject: string): ParsedSubject | null
     };
 }
 
+export function isBreakingSubject(subject: string): boolean {
+    return BREAKING_SUBJECT_REGEX.test(subject.trim());
+}
+
+export function hasBreakingFooter(message: string): boolean {
+    return BREAKING_FOOTER_REGEX.test(message);
+}
+
 export function messageMentionsTicket(message: string, ticket: string | null): boolean {
     if (!ticket) return false;
     return new RegExp(`\\b${escapeRegExp(ticket)}\\b`).test(message);
@@ -207,7 +253,7 @@ export function repairMessage(options: RepairOptions): RepairResult {
     const lines = original.split("\n");
     const originalSubject = lines[0].trim().replace(/^["'`]+|["'`]+$/g, "").trim();
     const body = normalizeMessage(lines.slice(1).join("\n"));
-    const bodyBlock = body ? `\n\n${body}` : "";
+    const breaking = isBreakingSubject(originalSubject) || hasBreakingFooter(body);
 
     const forcedType = options.forcedType;
     const normalizedScope = normalizeScopeName(options.scope);
@@ -237,52 +283,21 @@ export function repairMessage(options: RepairOptions): RepairResult {
     description = normalizeDescription(description);
 
     let repairedSubject: string;
+    let footer = "";
     if (selectedType) {
         const scopePart = selectedScope ? `(${selectedScope})` : "";
-        repairedSubject = `${selectedType}${scopePart}: ${description}`;
+        repairedSubject = `${selectedType}${scopePart}${breaking ? "!" : ""}: ${description}`;
+        if (breaking && options.requireBreakingFooter && !hasBreakingFooter(body)) {
+            footer = `\n\nBREAKING CHANGE: ${description}`;
+        }
     } else {
         repairedSubject = description;
     }
+    const bodyBlock = body ? `\n\n${body}` : "";
 
-    const repaired = appendTicketFooter(`${repairedSubject}${bodyBlock}`, options.ticket ?? null);
+    const repaired = appendTicketFooter(`${repairedSubject}${bodyBlock}${footer}`, options.ticket ?? null);
     return {
         message: repaired,
         didRepair: repaired !== original
     };
 }
-
-function isDocumentationFile(path: string): boolean {
-    return path.startsWith("docs/")
-        || path.endsWith(".md")
-        || path.endsWith(".mdx")
-        || path.endsWith(".rst")
-        || path.includes("/docs/");
-}
-
-function isTestFile(path: string): boolean {
-    return path.includes("/test/")
-        || path.includes("/tests/")
-        || path.includes("__tests__")
-        || path.endsWith(".spec.ts")
-        || path.endsWith(".test.ts")
-        || path.endsWith(".spec.js")
-        || path.endsWith(".test.js");
-}
-
-function isCiFile(path: string): boolean {
-    return path.startsWith(".github/workflows/")
-        || path.startsWith(".gitlab-ci")
-        || path.startsWith(".circleci/")
-        || path.startsWith("azure-pipelines");
-}
-
-function isBuildFile(path: string): boolean {
-    return path === "package-lock.json"
-        || path === "yarn.lock"
-        || path === "pnpm-lock.yaml"
-        || path === "package.json"
-        || path === "dockerfile"
-        || path === "docker-compose.yml"
-        || path.endsWith("/dockerfile")
-        || path.endsWith("/docker-compose.yml");
-}
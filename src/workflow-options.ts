@@ -1,4 +1,5 @@
 import { DEFAULT_RETRIES, DEFAULT_TIMEOUT_MS } from "./config.js";
+import { parseProviderName } from "./provider.js";
 import { parseBoundedInteger } from "./util.js";
 import type { WorkflowOptions } from "./workflow.js";
 
@@ -13,10 +14,16 @@ export function readEnv(name: string): string | null {
 }
 
 export function buildDefaultWorkflowOptions(overrides: Partial<WorkflowOptions> = {}): WorkflowOptions {
+    const provider = readEnv("GIT_AI_PROVIDER");
     return {
+        provider: provider ? parseProviderName(provider, "GIT_AI_PROVIDER") : null,
         model: readEnv("GIT_AI_MODEL"),
         host: readEnv("GIT_AI_HOST"),
+        apiKey: readEnv("GIT_AI_API_KEY"),
+        modelOptions: {},
+        heuristicFallback: null,
         maxChars: null,
+        strategy: null,
         type: null,
         scope: null,
         dryRun: false,
@@ -39,8 +46,12 @@ export function buildDefaultWorkflowOptions(overrides: Partial<WorkflowOptions>
         output: "text",
         configPath: null,
         candidates: null,
+        concurrency: null,
         ticket: null,
         history: null,
+        cache: true,
+        record: null,
+        replay: null,
         ...overrides
     };
 }
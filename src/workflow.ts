@@ -1,17 +1,38 @@
+import { resolve } from "node:path";
 import {
+    DEFAULT_BLOCK_ON_SECRETS,
+    DEFAULT_CONCURRENCY,
+    DEFAULT_HEURISTIC_FALLBACK,
     DEFAULT_HISTORY_ENABLED,
     DEFAULT_HISTORY_SAMPLE_SIZE,
+    DEFAULT_HISTORY_SELECTION,
     DEFAULT_HOST,
+    DEFAULT_MAP_REDUCE_FACTOR,
     DEFAULT_MAX_CHARS,
     DEFAULT_MODEL,
+    DEFAULT_PROMPT_EXCLUDE,
+    DEFAULT_PROVIDER,
+    DEFAULT_STRATEGY,
     DEFAULT_TICKET_PATTERN,
+    DEFAULT_WORKSPACE_SCOPE,
+    getScopeMapScope,
     loadRepoConfig,
-    type RepoConfig
+    type GenerationStrategy,
+    type HistorySelection,
+    type RepoConfig,
+    type WorkspaceScopeRule
 } from "./config.js";
 import { buildWorkflowDiagnostics, type WorkflowDiagnostics } from "./diagnostics.js";
+import type { DiffGroup } from "./diff-digest.js";
 import { ExitCode, EXIT_CODE_LABEL } from "./exit-codes.js";
 import { getGitDir, getRepoRoot, hasStagedChanges, isGitRepo } from "./git.js";
-import { ensureLocalModel, OllamaError } from "./ollama.js";
+import { HEURISTIC_MODEL } from "./heuristic.js";
+import { createModelChain, getActiveModel, parseModelList, runWithModelFallback, type ModelChain } from "./model-fallback.js";
+import { mergeModelOptions, type ModelOptions } from "./model-options.js";
+import { createProvider, type ProviderName } from "./provider.js";
+import { createRecording, type Recording } from "./recording.js";
+import type { PromptBudget } from "./token-budget.js";
+import { ProviderError } from "./provider-http.js";
 import { buildSuccessResult, commitMessage, ensureValid, getAlternatives, maybeRecordHistory } from "./finalize.js";
 import { resolveCommitPolicy, type CommitPolicy } from "./policy.js";
 import { generateCandidates } from "./candidates.js";
@@ -20,6 +41,9 @@ import { normalizeErrorMessage, normalizeScopeName } from "./util.js";
 import { type AllowedType } from "./validation.js";
 import { ensureBoundedNumber, ensureNonEmptyString, WorkflowError } from "./workflow-errors.js";
 import { runInteractive } from "./interactive.js";
+import type { StagedChange } from "./staged-changes.js";
+import type { TypeInference } from "./type-classifier.js";
+import type { ScopeInference } from "./context.js";
 
 export type OutputFormat = "text" | "json";
 export type MessageSource = "model" | "repaired";
@@ -28,13 +52,22 @@ export const MIN_MAX_CHARS = 500;
 export const MAX_MAX_CHARS = 200000;
 export const MIN_CANDIDATES = 1;
 export const MAX_CANDIDATES = 5;
+export const MIN_CONCURRENCY = 1;
+export const MAX_CONCURRENCY = 5;
+const MIN_MAP_REDUCE_FACTOR = 2;
+const MAX_MAP_REDUCE_FACTOR = 100;
 const MIN_HISTORY_SAMPLE_SIZE = 1;
 const MAX_HISTORY_SAMPLE_SIZE = 25;
 
 export type WorkflowOptions = {
+    provider: ProviderName | null;
     model: string | null;
     host: string | null;
+    apiKey: string | null;
+    modelOptions: ModelOptions;
+    heuristicFallback: boolean | null;
     maxChars: number | null;
+    strategy: GenerationStrategy | null;
     type: AllowedType | null;
     scope: string | null;
     dryRun: boolean;
@@ -47,8 +80,12 @@ export type WorkflowOptions = {
     output: OutputFormat;
     configPath: string | null;
     candidates: number | null;
+    concurrency: number | null;
     ticket: string | null;
     history: boolean | null;
+    cache: boolean;
+    record: string | null;
+    replay: string | null;
 };
 
 export type SuccessResult = {
@@ -60,6 +97,7 @@ export type SuccessResult = {
     cancelled: boolean;
     scope: string | null;
     ticket: string | null;
+    model?: string;
     alternatives?: string[];
     diagnostics?: WorkflowDiagnostics;
 };
@@ -76,9 +114,20 @@ export type ErrorResult = {
 export type WorkflowResult = SuccessResult | ErrorResult;
 
 export type ResolvedWorkflowOptions = {
+    provider: ProviderName;
     model: string;
+    modelChain: ModelChain;
     host: string;
+    apiKey: string | null;
+    recording: Recording | null;
+    modelOptions: ModelOptions;
     maxChars: number;
+    promptExclude: string[];
+    redactPatterns: string[];
+    blockOnSecrets: boolean;
+    strategy: GenerationStrategy;
+    mapReduceFactor: number;
+    workspaceScope: WorkspaceScopeRule;
     type: AllowedType | null;
     scope: string | null;
     dryRun: boolean;
@@ -90,9 +139,12 @@ export type ResolvedWorkflowOptions = {
     retries: number;
     output: OutputFormat;
     candidates: number;
+    concurrency: number;
     ticket: string | null;
     historyEnabled: boolean;
     historySampleSize: number;
+    historySelection: HistorySelection;
+    cacheEnabled: boolean;
     ticketPattern: string;
     defaultScope: string | null;
     knownScopes: string[];
@@ -103,15 +155,34 @@ export type RepoContext = {
     gitDir: string;
     diff: string;
     files: string[];
+    changes: StagedChange[];
+    touchedSymbols: string[];
+    breakingChanges: string[];
     branch: string | null;
+    owners: string[];
     suggestedScope: string | null;
+    scopeInference: ScopeInference | null;
     effectiveScope: string | null;
     ticket: string | null;
     recentExamples: string[];
     expectedType: AllowedType | null;
+    typeInference: TypeInference | null;
     historyPath: string | null;
+    cachePath: string | null;
+    promptBudget: PromptBudget;
+    redactions: Record<string, number>;
+    diffGroups: DiffGroup[] | null;
 };
 
+function resolveRecording(options: WorkflowOptions): Recording | null {
+    if (options.record && options.replay) {
+        throw new WorkflowError(ExitCode.UsageError, "--record and --replay cannot be used together.");
+    }
+    if (options.record) return createRecording("record", resolve(process.cwd(), options.record));
+    if (options.replay) return createRecording("replay", resolve(process.cwd(), options.replay));
+    return null;
+}
+
 export function resolveWorkflowOptions(
     options: WorkflowOptions,
     repoConfig: RepoConfig
@@ -120,6 +191,13 @@ export function resolveWorkflowOptions(
     const requestedCandidates = options.candidates
         ?? 1;
 
+    const provider = options.provider ?? repoConfig.provider ?? DEFAULT_PROVIDER;
+    const models = provider === "heuristic"
+        ? [HEURISTIC_MODEL]
+        : parseModelList(options.model ?? repoConfig.model ?? DEFAULT_MODEL, "--model");
+    const heuristicFallback = options.heuristicFallback ?? repoConfig.heuristicFallback ?? DEFAULT_HEURISTIC_FALLBACK;
+    const recording = resolveRecording(options);
+
     const historySampleSize = ensureBoundedNumber(
         repoConfig.historySampleSize ?? DEFAULT_HISTORY_SAMPLE_SIZE,
         "historySampleSize",
@@ -128,14 +206,30 @@ export function resolveWorkflowOptions(
     );
 
     return {
-        model: ensureNonEmptyString(options.model ?? repoConfig.model ?? DEFAULT_MODEL, "--model"),
+        provider,
+        model: models[0],
+        modelChain: createModelChain(heuristicFallback ? [...new Set([...models, HEURISTIC_MODEL])] : models),
         host: ensureNonEmptyString(options.host ?? repoConfig.host ?? DEFAULT_HOST, "--host"),
+        apiKey: options.apiKey,
+        recording,
+        modelOptions: mergeModelOptions(repoConfig.modelOptions, options.modelOptions),
         maxChars: ensureBoundedNumber(
             options.maxChars ?? repoConfig.maxChars ?? DEFAULT_MAX_CHARS,
             "--max-chars",
             MIN_MAX_CHARS,
             MAX_MAX_CHARS
         ),
+        promptExclude: [...DEFAULT_PROMPT_EXCLUDE, ...(repoConfig.promptExclude ?? [])],
+        redactPatterns: repoConfig.redactPatterns ?? [],
+        blockOnSecrets: repoConfig.blockOnSecrets ?? DEFAULT_BLOCK_ON_SECRETS,
+        strategy: options.strategy ?? repoConfig.strategy ?? DEFAULT_STRATEGY,
+        mapReduceFactor: ensureBoundedNumber(
+            repoConfig.mapReduceFactor ?? DEFAULT_MAP_REDUCE_FACTOR,
+            "mapReduceFactor",
+            MIN_MAP_REDUCE_FACTOR,
+            MAX_MAP_REDUCE_FACTOR
+        ),
+        workspaceScope: repoConfig.workspaceScope ?? DEFAULT_WORKSPACE_SCOPE,
         type: options.type,
         scope: normalizeScopeName(options.scope),
         dryRun: options.dryRun,
@@ -147,15 +241,24 @@ export function resolveWorkflowOptions(
         retries: options.retries,
         output: options.output,
         candidates: ensureBoundedNumber(requestedCandidates, "--candidates", MIN_CANDIDATES, MAX_CANDIDATES),
+        concurrency: ensureBoundedNumber(
+            options.concurrency ?? repoConfig.concurrency ?? DEFAULT_CONCURRENCY,
+            "--concurrency",
+            MIN_CONCURRENCY,
+            MAX_CONCURRENCY
+        ),
         ticket: options.ticket?.trim() ? options.ticket.trim() : null,
         historyEnabled: options.history ?? repoConfig.historyEnabled ?? DEFAULT_HISTORY_ENABLED,
         historySampleSize,
+        historySelection: repoConfig.historySelection ?? DEFAULT_HISTORY_SELECTION,
+        cacheEnabled: options.cache && !recording,
         ticketPattern: repoConfig.ticketPattern ?? DEFAULT_TICKET_PATTERN,
         defaultScope: normalizeScopeName(repoConfig.defaultScope),
         knownScopes: [...new Set([
             ...(repoConfig.scopes ?? []),
             ...policy.requiredScopes,
-            ...Object.values(policy.scopeMap)
+            ...Object.values(policy.scopeMap).map(getScopeMapScope),
+            ...Object.values(policy.ownerScopes)
         ])],
         policy
     };
@@ -172,7 +275,7 @@ function toErrorResult(error: unknown): ErrorResult {
         };
     }
 
-    if (error instanceof OllamaError) {
+    if (error instanceof ProviderError) {
         return {
             ok: false,
             exitCode: ExitCode.OllamaError,
@@ -275,19 +378,20 @@ export async function runWorkflow(options: WorkflowOptions): Promise<WorkflowRes
             );
         }
 
-        await ensureLocalModel(
-            resolvedOptions.host,
-            resolvedOptions.model,
+        const provider = createProvider(resolvedOptions);
+        await runWithModelFallback(resolvedOptions.modelChain, async (model) => await provider.healthCheck(
+            model,
             Math.min(resolvedOptions.timeoutMs, 10000)
-        );
+        ));
 
         const context = await loadRepoContext(gitDir, resolvedOptions);
 
-        if (resolvedOptions.ci || resolvedOptions.dryRun) {
-            return await runNonInteractive(context, resolvedOptions);
-        }
-
-        return await runInteractive(context, resolvedOptions);
+        const result = resolvedOptions.ci || resolvedOptions.dryRun
+            ? await runNonInteractive(context, resolvedOptions)
+            : await runInteractive(context, resolvedOptions);
+        return result.ok
+            ? { ...result, model: getActiveModel(resolvedOptions.modelChain) }
+            : result;
     } catch (error: unknown) {
         return toErrorResult(error);
     }
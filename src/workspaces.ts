@@ -0,0 +1,164 @@
+import { readdir, readFile } from "node:fs/promises";
+import { basename, join } from "node:path";
+import { createPathMatcher } from "./glob.js";
+
+export type WorkspacePackage = {
+    name: string;
+    path: string;
+};
+
+type ManifestReader = (repoRoot: string, dir: string) => Promise<string | null>;
+
+const MAX_WORKSPACE_DEPTH = 4;
+const SKIPPED_DIRS = new Set(["node_modules", "dist", "build", "target", "vendor"]);
+const NX_PROJECT_GLOBS = ["apps/*", "libs/*", "packages/*"];
+
+async function readText(path: string): Promise<string | null> {
+    try {
+        return await readFile(path, "utf8");
+    } catch {
+        return null;
+    }
+}
+
+function parseJson(text: string | null): Record<string, unknown> | null {
+    if (!text) return null;
+    try {
+        const parsed: unknown = JSON.parse(text);
+        return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed as Record<string, unknown> : null;
+    } catch {
+        return null;
+    }
+}
+
+function stringList(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === "string") : [];
+}
+
+function normalizeDir(dir: string): string {
+    return dir.trim().replace(/^\.?\//, "").replace(/\/+$/, "");
+}
+
+function packageLabel(name: string): string {
+    return name.replace(/^@[^/]+\//, "");
+}
+
+async function readPackageJsonName(repoRoot: string, dir: string): Promise<string | null> {
+    const manifest = parseJson(await readText(join(repoRoot, dir, "package.json")));
+    if (!manifest) return null;
+    return typeof manifest.name === "string" && manifest.name.trim() ? manifest.name.trim() : basename(dir);
+}
+
+async function readCargoName(repoRoot: string, dir: string): Promise<string | null> {
+    const manifest = await readText(join(repoRoot, dir, "Cargo.toml"));
+    if (manifest === null) return null;
+    return manifest.match(/\[package\][^[]*?^\s*name\s*=\s*"([^"]+)"/m)?.[1] ?? basename(dir);
+}
+
+async function readGoModuleName(repoRoot: string, dir: string): Promise<string | null> {
+    const manifest = await readText(join(repoRoot, dir, "go.mod"));
+    if (manifest === null) return null;
+    return manifest.match(/^module\s+(\S+)/m)?.[1]?.split("/").pop() ?? basename(dir);
+}
+
+async function readNxProjectName(repoRoot: string, dir: string): Promise<string | null> {
+    const project = parseJson(await readText(join(repoRoot, dir, "project.json")));
+    if (!project) return null;
+    return typeof project.name === "string" && project.name.trim() ? project.name.trim() : basename(dir);
+}
+
+async function listDirs(repoRoot: string, dir = "", depth = 0): Promise<string[]> {
+    if (depth >= MAX_WORKSPACE_DEPTH) return [];
+    let entries;
+    try {
+        entries = await readdir(join(repoRoot, dir), { withFileTypes: true });
+    } catch {
+        return [];
+    }
+
+    const dirs: string[] = [];
+    for (const entry of entries) {
+        if (!entry.isDirectory() || entry.name.startsWith(".") || SKIPPED_DIRS.has(entry.name)) continue;
+        const path = dir ? `${dir}/${entry.name}` : entry.name;
+        dirs.push(path, ...await listDirs(repoRoot, path, depth + 1));
+    }
+    return dirs;
+}
+
+async function expandGlobs(repoRoot: string, globs: string[], readName: ManifestReader): Promise<WorkspacePackage[]> {
+    if (globs.length === 0) return [];
+    const isMember = createPathMatcher(globs.map((glob) => {
+        const negated = glob.startsWith("!");
+        return `${negated ? "!" : ""}/${normalizeDir(negated ? glob.slice(1) : glob)}`;
+    }));
+
+    const packages: WorkspacePackage[] = [];
+    for (const dir of await listDirs(repoRoot)) {
+        if (!isMember(dir)) continue;
+        const name = await readName(repoRoot, dir);
+        if (name) packages.push({ name: packageLabel(name), path: dir });
+    }
+    return packages;
+}
+
+function parsePnpmWorkspace(text: string): string[] {
+    const block = text.match(/^packages:\s*\n((?:[ \t]*(?:-.*|#.*)?\n?)*)/m)?.[1] ?? "";
+    return block
+        .split("\n")
+        .map((line) => line.match(/^\s*-\s*["']?([^"'#]+?)["']?\s*(?:#.*)?$/)?.[1])
+        .filter((glob): glob is string => Boolean(glob));
+}
+
+function parseCargoMembers(text: string): string[] {
+    const members = text.match(/\[workspace\][^[]*?members\s*=\s*\[([^\]]*)\]/)?.[1] ?? "";
+    return [...members.matchAll(/"([^"]+)"/g)].map((match) => match[1]);
+}
+
+function parseGoWork(text: string): string[] {
+    const block = text.match(/^use\s*\(([^)]*)\)/m)?.[1];
+    const dirs = block ? block.split("\n") : [...text.matchAll(/^use\s+(\S+)/gm)].map((match) => match[1]);
+    return dirs.map((dir) => dir.replace(/\/\/.*$/, "").trim()).filter((dir) => dir && dir !== ".");
+}
+
+function parseNxWorkspace(text: string | null): WorkspacePackage[] {
+    const projects = parseJson(text)?.projects;
+    if (!projects || typeof projects !== "object") return [];
+    return Object.entries(projects as Record<string, unknown>)
+        .filter((entry): entry is [string, string] => typeof entry[1] === "string")
+        .map(([name, path]) => ({ name, path: normalizeDir(path) }));
+}
+
+export async function detectWorkspaces(repoRoot: string): Promise<WorkspacePackage[]> {
+    const rootManifest = parseJson(await readText(join(repoRoot, "package.json")));
+    const npmWorkspaces = rootManifest?.workspaces;
+    const npmGlobs = Array.isArray(npmWorkspaces)
+        ? stringList(npmWorkspaces)
+        : stringList((npmWorkspaces as Record<string, unknown> | undefined)?.packages);
+    const pnpmWorkspace = await readText(join(repoRoot, "pnpm-workspace.yaml"));
+    const cargoManifest = await readText(join(repoRoot, "Cargo.toml"));
+    const goWork = await readText(join(repoRoot, "go.work"));
+    const nxConfig = await readText(join(repoRoot, "nx.json"));
+
+    const packages = [
+        ...await expandGlobs(repoRoot, [...npmGlobs, ...(pnpmWorkspace ? parsePnpmWorkspace(pnpmWorkspace) : [])], readPackageJsonName),
+        ...await expandGlobs(repoRoot, cargoManifest ? parseCargoMembers(cargoManifest) : [], readCargoName),
+        ...await expandGlobs(repoRoot, goWork ? parseGoWork(goWork) : [], readGoModuleName),
+        ...parseNxWorkspace(await readText(join(repoRoot, "workspace.json"))),
+        ...await expandGlobs(repoRoot, nxConfig !== null ? NX_PROJECT_GLOBS : [], readNxProjectName)
+    ];
+
+    const byPath = new Map<string, WorkspacePackage>();
+    for (const entry of packages) {
+        if (entry.path && !byPath.has(entry.path)) byPath.set(entry.path, entry);
+    }
+    return [...byPath.values()];
+}
+
+export function findOwningPackage(file: string, packages: WorkspacePackage[]): WorkspacePackage | null {
+    let owner: WorkspacePackage | null = null;
+    for (const entry of packages) {
+        if (!file.startsWith(`${entry.path}/`)) continue;
+        if (!owner || entry.path.length > owner.path.length) owner = entry;
+    }
+    return owner;
+}
@@ -23,8 +23,10 @@ async function writeMockFetch(repoDir: string): Promise<string> {
     await writeFile(bootstrapPath, `
 const chatResponses = JSON.parse(process.env.MOCK_OLLAMA_CHAT_RESPONSES ?? "[]");
 const models = JSON.parse(process.env.MOCK_OLLAMA_MODELS ?? "[]");
+const requestLog = process.env.MOCK_OLLAMA_REQUEST_LOG;
+const { appendFileSync } = await import("node:fs");
 
-globalThis.fetch = async (url) => {
+globalThis.fetch = async (url, init) => {
   const target = String(url);
   if (target.endsWith("/api/tags")) {
     return new Response(JSON.stringify({ models: models.map((name) => ({ name })) }), {
@@ -34,6 +36,7 @@ globalThis.fetch = async (url) => {
   }
 
   if (target.endsWith("/api/chat")) {
+    if (requestLog) appendFileSync(requestLog, \`\${init?.body ?? ""}\\n\`);
     const content = chatResponses.shift() ?? "{\\"message\\":\\"docs: update readme\\"}";
     return new Response(JSON.stringify({ message: { content } }), {
       status: 200,
@@ -86,12 +89,14 @@ describe("cli e2e", () => {
             message: string;
             source: string;
             committed: boolean;
+            model?: string;
             ticket?: string;
             alternatives?: string[];
         };
 
         expect(payload.status).toBe("ok");
         expect(payload.message).toBe("docs: update readme\n\nRefs ABC-123");
+        expect(payload.model).toBe("repo-model");
         expect(payload.committed).toBe(false);
         expect(payload.source).toBe("repaired");
         expect(payload.ticket).toBe("ABC-123");
@@ -101,6 +106,53 @@ describe("cli e2e", () => {
         ]);
     });
 
+    it("sends CLI model options merged over repo config model options", async () => {
+        const repoDir = await mkdtemp(join(tmpdir(), "git-ai-commit-e2e-"));
+        await initRepo(repoDir);
+        await writeFile(join(repoDir, "README.md"), "# Demo\n");
+        await writeFile(join(repoDir, ".commitgen.json"), JSON.stringify({
+            modelOptions: { temperature: 0.7, topP: 0.9 }
+        }, null, 2));
+        const bootstrapPath = await writeMockFetch(repoDir);
+        const requestLog = join(repoDir, "requests.log");
+        await execa("git", ["add", "README.md"], { cwd: repoDir });
+
+        const { exitCode } = await execa(getNodeBin(), [
+            "--import",
+            bootstrapPath,
+            getCliPath(),
+            "--ci",
+            "--dry-run",
+            "--model",
+            "llama3",
+            "--temperature",
+            "0",
+            "--seed",
+            "42",
+            "--num-ctx",
+            "16384"
+        ], {
+            cwd: repoDir,
+            env: {
+                MOCK_OLLAMA_MODELS: JSON.stringify(["llama3:latest"]),
+                MOCK_OLLAMA_REQUEST_LOG: requestLog
+            }
+        });
+
+        expect(exitCode).toBe(0);
+        const [request] = (await readFile(requestLog, "utf8")).trim().split("\n").map((line) => JSON.parse(line) as {
+            options?: Record<string, number>;
+        });
+        expect(request?.options).toEqual({ temperature: 0, seed: 42, num_ctx: 16384, top_p: 0.9 });
+
+        const invalid = await execa(getNodeBin(), [getCliPath(), "--ci", "--temperature", "3"], {
+            cwd: repoDir,
+            reject: false
+        });
+        expect(invalid.exitCode).toBe(1);
+        expect(invalid.stderr).toContain("--temperature must be between 0 and 2.");
+    });
+
     it("emits JSON diagnostics when explain mode is enabled", async () => {
         const repoDir = await mkdtemp(join(tmpdir(), "git-ai-commit-e2e-"));
         await initRepo(repoDir);
@@ -378,6 +430,31 @@ describe("cli e2e", () => {
         await expect(readFile(messageFile, "utf8")).resolves.toContain("docs: update readme");
     });
 
+    it("writes an offline heuristic message from the prepare-commit-msg hook when the model is unavailable", async () => {
+        const repoDir = await mkdtemp(join(tmpdir(), "git-ai-commit-hooks-"));
+        await initRepo(repoDir);
+        await writeFile(join(repoDir, "README.md"), "# Demo\n");
+        await writeFile(join(repoDir, ".commitgen.json"), JSON.stringify({ heuristicFallback: true }));
+        const bootstrapPath = await writeMockFetch(repoDir);
+        await execa("git", ["add", "README.md"], { cwd: repoDir });
+        await execa(getNodeBin(), [getCliPath(), "install-hook"], { cwd: repoDir });
+
+        const messageFile = join(repoDir, "COMMIT_EDITMSG");
+        await writeFile(messageFile, "");
+
+        const hookResult = await execa(join(repoDir, ".git", "hooks", "prepare-commit-msg"), [messageFile], {
+            cwd: repoDir,
+            env: {
+                NODE_OPTIONS: `--import ${bootstrapPath}`,
+                MOCK_OLLAMA_MODELS: JSON.stringify([])
+            }
+        });
+
+        expect(hookResult.exitCode).toBe(0);
+        expect(hookResult.stderr).toContain("built offline from the staged diff");
+        await expect(readFile(messageFile, "utf8")).resolves.toBe("docs: add demo section\n");
+    });
+
     it("stores an absolute installed config path so hooks still work when installed from a subdirectory", async () => {
         const repoDir = await mkdtemp(join(tmpdir(), "git-ai-commit-hooks-"));
         const nestedDir = join(repoDir, "nested");
@@ -3,6 +3,7 @@ import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { ExitCode } from "../../src/exit-codes.js";
+import { ProviderError } from "../../src/provider-http.js";
 import type { WorkflowOptions } from "../../src/workflow.js";
 
 const gitMock = {
@@ -15,7 +16,16 @@ const ollamaMock = {
     ensureLocalModel: vi.fn()
 };
 
+const openAiMock = {
+    listOpenAiModels: vi.fn(),
+    ensureOpenAiModel: vi.fn()
+};
+
 vi.mock("../../src/git.js", () => gitMock);
+vi.mock("../../src/openai.js", () => ({
+    listOpenAiModels: openAiMock.listOpenAiModels,
+    ensureOpenAiModel: openAiMock.ensureOpenAiModel
+}));
 vi.mock("../../src/ollama.js", () => ({
     listLocalModels: ollamaMock.listLocalModels,
     ensureLocalModel: ollamaMock.ensureLocalModel
@@ -25,8 +35,12 @@ const { runDoctor } = await import("../../src/doctor.js");
 
 function baseOptions(overrides: Partial<WorkflowOptions> = {}): WorkflowOptions {
     return {
+        provider: null,
         model: null,
         host: null,
+        apiKey: null,
+        modelOptions: {},
+        heuristicFallback: null,
         maxChars: null,
         type: null,
         scope: null,
@@ -40,8 +54,13 @@ function baseOptions(overrides: Partial<WorkflowOptions> = {}): WorkflowOptions
         output: "text",
         configPath: null,
         candidates: null,
+        concurrency: null,
         ticket: null,
         history: null,
+        cache: true,
+        record: null,
+        replay: null,
+        strategy: null,
         ...overrides
     };
 }
@@ -53,6 +72,8 @@ describe("runDoctor", () => {
         gitMock.getRepoRoot.mockResolvedValue("/repo");
         ollamaMock.listLocalModels.mockResolvedValue(["gpt-oss:120b-cloud:latest"]);
         ollamaMock.ensureLocalModel.mockResolvedValue(undefined);
+        openAiMock.listOpenAiModels.mockResolvedValue(["qwen"]);
+        openAiMock.ensureOpenAiModel.mockResolvedValue(undefined);
     });
 
     it("reports git-context failures outside a repository", async () => {
@@ -89,4 +110,68 @@ describe("runDoctor", () => {
         expect(result.checks.some((check) => check.name === "Configured model" && !check.ok)).toBe(true);
         expect(result.checks.find((check) => check.name === "Configured model" && !check.ok)?.nextStep).toContain("ollama pull");
     });
+
+    it("checks the configured OpenAI-compatible provider instead of Ollama", async () => {
+        openAiMock.ensureOpenAiModel.mockRejectedValue(new Error("Model \"llama3\" is not served by the OpenAI-compatible server."));
+
+        const result = await runDoctor(baseOptions({
+            provider: "openai",
+            model: "llama3",
+            host: "http://gpu-box:8000"
+        }));
+
+        expect(result.ok).toBe(false);
+        expect(result.exitCode).toBe(ExitCode.OllamaError);
+        expect(ollamaMock.listLocalModels).not.toHaveBeenCalled();
+        expect(result.checks.find((check) => check.name === "Resolved provider")?.detail).toBe("openai");
+        expect(result.checks.find((check) => check.name === "OpenAI-compatible")).toMatchObject({
+            section: "OpenAI-compatible",
+            ok: true,
+            detail: "Reachable with 1 model."
+        });
+        expect(result.checks.find((check) => check.name === "Configured model" && !check.ok)?.nextStep).toContain("Load `llama3` on the server");
+    });
+
+    it("reports which fallback model is available when the first one is missing", async () => {
+        ollamaMock.ensureLocalModel.mockImplementation(async (_host: string, model: string) => {
+            if (model === "gpt-oss:120b-cloud") throw new ProviderError("missing", "MODEL_NOT_FOUND");
+        });
+
+        const result = await runDoctor(baseOptions({ model: "gpt-oss:120b-cloud, llama3.1:8b" }));
+
+        expect(result.ok).toBe(true);
+        expect(result.checks.find((check) => check.name === "Resolved model")?.detail).toBe("gpt-oss:120b-cloud, llama3.1:8b");
+        expect(result.checks.find((check) => check.name === "Configured model")).toMatchObject({
+            ok: true,
+            detail: "llama3.1:8b (fallback from gpt-oss:120b-cloud)"
+        });
+    });
+
+    it("checks real models only and reports whether the heuristic fallback is enabled", async () => {
+        ollamaMock.ensureLocalModel.mockRejectedValue(new ProviderError("missing", "MODEL_NOT_FOUND"));
+
+        const result = await runDoctor(baseOptions({ heuristicFallback: true }));
+
+        expect(result.ok).toBe(false);
+        expect(result.checks.find((check) => check.name === "Resolved model")?.detail).toBe("gpt-oss:120b-cloud");
+        expect(result.checks.find((check) => check.name === "Heuristic fallback")?.detail).toContain("Enabled");
+        expect(result.checks.find((check) => check.name === "Configured model")?.ok).toBe(false);
+
+        const disabled = await runDoctor(baseOptions());
+        expect(disabled.checks.find((check) => check.name === "Heuristic fallback")?.detail).toBe("Disabled.");
+    });
+
+    it("passes without a model server when the heuristic provider is selected", async () => {
+        const result = await runDoctor(baseOptions({ provider: "heuristic" }));
+
+        expect(result.ok).toBe(true);
+        expect(ollamaMock.listLocalModels).not.toHaveBeenCalled();
+        expect(result.checks.find((check) => check.name === "Resolved model")?.detail).toBe("heuristic");
+        expect(result.checks.find((check) => check.name === "Heuristic fallback")).toBeUndefined();
+        expect(result.checks.find((check) => check.name === "Configured model")).toMatchObject({
+            section: "Heuristic",
+            ok: true,
+            detail: "heuristic"
+        });
+    });
 });
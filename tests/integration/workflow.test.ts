@@ -1,5 +1,10 @@
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { ExitCode } from "../../src/exit-codes.js";
+import { ProviderError } from "../../src/provider-http.js";
+import type { StagedChange } from "../../src/staged-changes.js";
 import type { WorkflowOptions } from "../../src/workflow.js";
 
 const gitMock = {
@@ -9,22 +14,21 @@ const gitMock = {
     getCurrentBranch: vi.fn(),
     hasStagedChanges: vi.fn(),
     getStagedDiff: vi.fn(),
-    getStagedFiles: vi.fn(),
+    getStagedChanges: vi.fn(),
+    getRecentCommits: vi.fn(),
     gitCommit: vi.fn()
 };
 
-class MockOllamaError extends Error {
-    hint: string | null;
-
+class MockOllamaError extends ProviderError {
     constructor(message: string, hint?: string) {
-        super(message);
+        super(message, "UNREACHABLE", { hint });
         this.name = "OllamaError";
-        this.hint = hint ?? null;
     }
 }
 
 const ollamaMock = {
     ensureLocalModel: vi.fn(),
+    getModelContextLength: vi.fn(),
     ollamaChat: vi.fn()
 };
 const historyMock = {
@@ -33,24 +37,37 @@ const historyMock = {
     appendHistory: vi.fn()
 };
 const promptsMock = vi.fn();
+const stopKeyMock = {
+    watchForStopKey: vi.fn()
+};
 
 vi.mock("../../src/git.js", () => gitMock);
 vi.mock("../../src/history.js", () => historyMock);
 vi.mock("../../src/ollama.js", () => ({
     ensureLocalModel: ollamaMock.ensureLocalModel,
+    getModelContextLength: ollamaMock.getModelContextLength,
     ollamaChat: ollamaMock.ollamaChat,
     OllamaError: MockOllamaError
 }));
+vi.mock("../../src/stop-key.js", () => stopKeyMock);
 vi.mock("prompts", () => ({
     default: promptsMock
 }));
 
 const { runWorkflow } = await import("../../src/workflow.js");
 
+function stagedChange(path: string): StagedChange {
+    return { path, status: "modified", previousPath: null, similarity: null, modeChange: null, binary: false };
+}
+
 function baseOptions(overrides: Partial<WorkflowOptions> = {}): WorkflowOptions {
     return {
+        provider: null,
         model: "gpt-oss:120b-cloud",
         host: "http://localhost:11434",
+        apiKey: null,
+        modelOptions: {},
+        heuristicFallback: null,
         maxChars: 16000,
         type: null,
         scope: null,
@@ -64,8 +81,13 @@ function baseOptions(overrides: Partial<WorkflowOptions> = {}): WorkflowOptions
         output: "text",
         configPath: null,
         candidates: null,
+        concurrency: null,
         ticket: null,
         history: false,
+        cache: false,
+        record: null,
+        replay: null,
+        strategy: null,
         ...overrides
     };
 }
@@ -79,14 +101,17 @@ describe("runWorkflow", () => {
         gitMock.getCurrentBranch.mockResolvedValue("feature/ABC-123-add-baseline");
         gitMock.hasStagedChanges.mockResolvedValue(true);
         gitMock.getStagedDiff.mockResolvedValue("diff --git a/src/a.ts b/src/a.ts\n+const x = 1;");
-        gitMock.getStagedFiles.mockResolvedValue(["src/a.ts"]);
+        gitMock.getStagedChanges.mockResolvedValue([stagedChange("src/a.ts")]);
+        gitMock.getRecentCommits.mockResolvedValue([]);
         gitMock.gitCommit.mockResolvedValue(undefined);
         ollamaMock.ensureLocalModel.mockResolvedValue(undefined);
+        ollamaMock.getModelContextLength.mockResolvedValue(null);
         ollamaMock.ollamaChat.mockResolvedValue("{\"message\":\"feat: add baseline\"}");
         historyMock.resolveHistoryPath.mockReturnValue("/repo/.git/commitgen/history.jsonl");
         historyMock.readHistory.mockResolvedValue([]);
         historyMock.appendHistory.mockResolvedValue(undefined);
         promptsMock.mockResolvedValue({ selection: "cancel" });
+        stopKeyMock.watchForStopKey.mockReturnValue(null);
     });
 
     it("returns git context error when repository is missing", async () => {
@@ -134,6 +159,39 @@ describe("runWorkflow", () => {
         }
     });
 
+    it("fits the diff to the model context window and reports the estimate in explain diagnostics", async () => {
+        ollamaMock.getModelContextLength.mockResolvedValue(2048);
+        gitMock.getStagedDiff.mockResolvedValue(`diff --git a/src/a.ts b/src/a.ts\n@@ -0,0 +1,1000 @@\n${"+const x = 1;\n".repeat(1000)}`);
+
+        const result = await runWorkflow(baseOptions({ dryRun: true, explain: true }));
+
+        expect(ollamaMock.getModelContextLength).toHaveBeenCalledWith("http://localhost:11434", "gpt-oss:120b-cloud", 10000);
+        const tokens = result.ok ? result.diagnostics?.context.tokens : undefined;
+        expect(tokens).toMatchObject({ contextWindow: 2048, diffChars: 14052, truncated: true });
+        expect(tokens?.estimatedPrompt).toBeLessThanOrEqual(2048 - 512);
+        const prompt = ollamaMock.ollamaChat.mock.calls[0][0].messages[1].content as string;
+        expect(prompt).toContain("Diffstat: 1 file changed, +1000 -0");
+        expect(prompt).toMatch(/\.\.\. \d+ more lines changed/);
+    });
+
+    it("summarizes groups of files first when the diff is far larger than the budget", async () => {
+        const fileDiff = (path: string): string => `diff --git a/${path} b/${path}\n@@ -0,0 +1,200 @@\n${"+const x = 1;\n".repeat(200)}`;
+        gitMock.getStagedDiff.mockResolvedValue(["src/a.ts", "src/b.ts", "src/c.ts"].map(fileDiff).join(""));
+        ollamaMock.ollamaChat.mockImplementation(async ({ messages }: { messages: Array<{ content: string }> }) => (
+            messages[1].content.startsWith("Task: Summarize")
+                ? "{\"message\":\"Adds constants.\"}"
+                : "{\"message\":\"feat: add constants\"}"
+        ));
+
+        const result = await runWorkflow(baseOptions({ dryRun: true, maxChars: 1500, concurrency: 2 }));
+
+        expect(result).toMatchObject({ ok: true, message: expect.stringMatching(/^feat\(a\): add constants/) });
+        const prompts = ollamaMock.ollamaChat.mock.calls.map(([request]) => request.messages[1].content as string);
+        expect(prompts.filter((prompt) => prompt.startsWith("Task: Summarize"))).toHaveLength(3);
+        expect(prompts.at(-1)).toContain("Files: src/a.ts\nAdds constants.");
+        expect(prompts.at(-1)).not.toContain("--- BEGIN DIFF");
+    });
+
     it("includes full validation diagnostics for invalid explain-mode results", async () => {
         ollamaMock.ollamaChat.mockResolvedValue("{\"message\":\"bad message\"}");
 
@@ -148,6 +206,32 @@ describe("runWorkflow", () => {
         }
     });
 
+    it("falls back to the next configured model when the first one is missing or times out", async () => {
+        ollamaMock.ensureLocalModel.mockImplementation(async (_host: string, model: string) => {
+            if (model === "gpt-oss:120b-cloud") throw new ProviderError("missing", "MODEL_NOT_FOUND");
+        });
+        ollamaMock.ollamaChat.mockImplementation(async ({ model }: { model: string }) => {
+            if (model === "qwen3:14b") throw new ProviderError("slow", "TIMEOUT");
+            return "{\"message\":\"feat: add baseline\"}";
+        });
+
+        const result = await runWorkflow(baseOptions({
+            model: "gpt-oss:120b-cloud,qwen3:14b,llama3.1:8b",
+            dryRun: true,
+            explain: true
+        }));
+
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+            expect(result.model).toBe("llama3.1:8b");
+            expect(result.diagnostics?.context.model).toEqual({
+                value: "llama3.1:8b",
+                requested: "gpt-oss:120b-cloud"
+            });
+        }
+        expect(ollamaMock.ollamaChat.mock.calls.map(([request]) => request.model)).toEqual(["qwen3:14b", "llama3.1:8b"]);
+    });
+
     it("allows invalid output only when --allow-invalid is enabled", async () => {
         ollamaMock.ollamaChat.mockResolvedValue("{\"message\":\"this is invalid\"}");
 
@@ -168,6 +252,68 @@ describe("runWorkflow", () => {
         }
     });
 
+    it("builds an offline heuristic message when the provider is unavailable", async () => {
+        ollamaMock.ensureLocalModel.mockRejectedValue(new MockOllamaError("Cannot reach Ollama.", "Run `ollama serve`."));
+        gitMock.getStagedDiff.mockResolvedValue([
+            "diff --git a/README.md b/README.md",
+            "--- a/README.md",
+            "+++ b/README.md",
+            "@@ -10,3 +10,4 @@ ## Installation",
+            "+Run npm install first."
+        ].join("\n"));
+        gitMock.getStagedChanges.mockResolvedValue([stagedChange("README.md")]);
+
+        const result = await runWorkflow(baseOptions({ dryRun: true, heuristicFallback: true }));
+
+        expect(ollamaMock.ollamaChat).not.toHaveBeenCalled();
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+            expect(result.message).toBe("docs: update installation section\n\nRefs ABC-123");
+            expect(result.model).toBe("heuristic");
+            expect(result.diagnostics?.context.model).toEqual({
+                value: "heuristic",
+                requested: "gpt-oss:120b-cloud"
+            });
+        }
+    });
+
+    it("falls back to the heuristic when generation fails after a healthy check", async () => {
+        ollamaMock.ollamaChat.mockRejectedValue(new ProviderError("Cannot reach Ollama.", "UNREACHABLE"));
+
+        const result = await runWorkflow(baseOptions({ dryRun: true, heuristicFallback: true }));
+
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+            expect(result.message).toBe("chore(a): update a\n\nRefs ABC-123");
+            expect(result.model).toBe("heuristic");
+        }
+    });
+
+    it("reports authentication failures instead of falling back to the heuristic", async () => {
+        ollamaMock.ollamaChat.mockRejectedValue(new ProviderError("Ollama request failed (401).", "HTTP_ERROR", { status: 401 }));
+
+        const result = await runWorkflow(baseOptions({ dryRun: true, heuristicFallback: true }));
+
+        expect(result.ok).toBe(false);
+        if (!result.ok) {
+            expect(result.exitCode).toBe(ExitCode.OllamaError);
+            expect(result.message).toContain("401");
+        }
+    });
+
+    it("uses the heuristic provider without contacting a model server when selected explicitly", async () => {
+        const result = await runWorkflow(baseOptions({ provider: "heuristic", dryRun: true }));
+
+        expect(ollamaMock.ensureLocalModel).not.toHaveBeenCalled();
+        expect(ollamaMock.ollamaChat).not.toHaveBeenCalled();
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+            expect(result.message).toBe("chore(a): update a\n\nRefs ABC-123");
+            expect(result.model).toBe("heuristic");
+            expect(result.diagnostics?.context.model).toEqual({ value: "heuristic", requested: "heuristic" });
+        }
+    });
+
     it("maps commit failures to exit code 5", async () => {
         gitMock.gitCommit.mockRejectedValue(new Error("hook failed"));
 
@@ -185,7 +331,7 @@ describe("runWorkflow", () => {
 
     it("marks repaired source when deterministic repair changed the output", async () => {
         gitMock.getStagedDiff.mockResolvedValue("diff --git a/README.md b/README.md\n+updated docs");
-        gitMock.getStagedFiles.mockResolvedValue(["README.md"]);
+        gitMock.getStagedChanges.mockResolvedValue([stagedChange("README.md")]);
         gitMock.getCurrentBranch.mockResolvedValue(null);
         ollamaMock.ollamaChat.mockResolvedValue("{\"message\":\"update readme content.\"}");
 
@@ -210,6 +356,59 @@ describe("runWorkflow", () => {
         expect(gitMock.gitCommit).toHaveBeenCalledTimes(1);
     });
 
+    it("reuses a cached response on the next run but not for Generate another", async () => {
+        gitMock.getGitDir.mockResolvedValue(await mkdtemp(join(tmpdir(), "commitgen-workflow-")));
+        ollamaMock.ollamaChat
+            .mockResolvedValueOnce("{\"message\":\"feat: add baseline\"}")
+            .mockResolvedValueOnce("{\"message\":\"feat: add cached baseline\"}");
+
+        const first = await runWorkflow(baseOptions({ cache: true, dryRun: true }));
+        const second = await runWorkflow(baseOptions({ cache: true, dryRun: true }));
+        expect(ollamaMock.ollamaChat).toHaveBeenCalledTimes(1);
+        if (first.ok && second.ok) expect(second.message).toBe(first.message);
+
+        const uncached = await runWorkflow(baseOptions({ cache: false, dryRun: true }));
+        expect(ollamaMock.ollamaChat).toHaveBeenCalledTimes(2);
+        if (uncached.ok) expect(uncached.message).toContain("add cached baseline");
+
+        const writeSpy = vi.spyOn(process.stdout, "write").mockImplementation(() => true);
+        try {
+            ollamaMock.ollamaChat.mockResolvedValueOnce("{\"message\":\"feat: add regenerated baseline\"}");
+            promptsMock
+                .mockResolvedValueOnce({ action: "regen" })
+                .mockResolvedValueOnce({ action: "dry" });
+
+            const result = await runWorkflow(baseOptions({ cache: true, ci: false }));
+            expect(ollamaMock.ollamaChat).toHaveBeenCalledTimes(3);
+            if (result.ok) expect(result.message).toContain("add regenerated baseline");
+        } finally {
+            writeSpy.mockRestore();
+        }
+    });
+
+    it("replays a recorded run without the provider and reports prompt changes", async () => {
+        const recordingPath = join(await mkdtemp(join(tmpdir(), "commitgen-workflow-")), "run.json");
+        ollamaMock.ollamaChat.mockResolvedValueOnce("{\"message\":\"feat: add recorded baseline\"}");
+
+        const recorded = await runWorkflow(baseOptions({ dryRun: true, record: recordingPath }));
+        expect(recorded.ok && recorded.message).toBe("feat(a): add recorded baseline\n\nRefs ABC-123");
+
+        ollamaMock.ensureLocalModel.mockRejectedValue(new MockOllamaError("Cannot reach Ollama."));
+        ollamaMock.ollamaChat.mockRejectedValue(new MockOllamaError("Cannot reach Ollama."));
+        const replayed = await runWorkflow(baseOptions({ dryRun: true, replay: recordingPath }));
+        expect(replayed).toEqual(recorded);
+
+        gitMock.getStagedDiff.mockResolvedValue("diff --git a/src/a.ts b/src/a.ts\n+const x = 2;");
+        const mismatch = await runWorkflow(baseOptions({ dryRun: true, replay: recordingPath }));
+        expect(mismatch.ok).toBe(false);
+        if (!mismatch.ok) {
+            expect(mismatch.exitCode).toBe(ExitCode.OllamaError);
+            expect(mismatch.message).toContain("- +const x = 1;");
+            expect(mismatch.message).toContain("+ +const x = 2;");
+        }
+        expect(ollamaMock.ollamaChat).toHaveBeenCalledTimes(1);
+    });
+
     it("returns dry-run result in interactive mode", async () => {
         promptsMock
             .mockResolvedValueOnce({ action: "dry" });
@@ -368,6 +567,77 @@ describe("runWorkflow", () => {
         expect(gitMock.gitCommit).not.toHaveBeenCalled();
     });
 
+    it("streams a live preview of the message in interactive mode only", async () => {
+        const writeSpy = vi.spyOn(process.stdout, "write").mockImplementation(() => true);
+        try {
+            ollamaMock.ollamaChat.mockImplementationOnce(async (opts: { onProgress?: (content: string) => void }) => {
+                opts.onProgress?.("{\"message\":\"feat: add");
+                opts.onProgress?.("{\"message\":\"feat: add baseline\"}");
+                return "{\"message\":\"feat: add baseline\"}";
+            });
+            promptsMock.mockResolvedValueOnce({ action: "accept" });
+
+            await runWorkflow(baseOptions({ ci: false }));
+
+            const written = writeSpy.mock.calls.map(([chunk]) => String(chunk)).join("");
+            expect(written).toContain("Generating commit message... \nfeat: add baseline\nDone.");
+            expect(ollamaMock.ollamaChat).toHaveBeenCalledWith(expect.objectContaining({
+                onProgress: expect.any(Function),
+                signal: expect.any(AbortSignal)
+            }));
+
+            ollamaMock.ollamaChat.mockClear();
+            await runWorkflow(baseOptions({ dryRun: true }));
+            expect(ollamaMock.ollamaChat.mock.calls[0]?.[0]).not.toHaveProperty("onProgress");
+        } finally {
+            writeSpy.mockRestore();
+        }
+    });
+
+    it("stops streaming on a key press and regenerates the message", async () => {
+        const writeSpy = vi.spyOn(process.stdout, "write").mockImplementation(() => true);
+        const release = vi.fn();
+        let onStop: (() => void) | null = null;
+        try {
+            stopKeyMock.watchForStopKey.mockImplementation((_input: unknown, callback: () => void) => {
+                onStop = callback;
+                return release;
+            });
+            ollamaMock.ollamaChat.mockImplementationOnce(async (opts: { onProgress?: (content: string) => void }) => {
+                opts.onProgress?.("{\"message\":\"wip");
+                onStop?.();
+                throw new ProviderError("Ollama request was stopped.", "ABORTED");
+            });
+            promptsMock.mockResolvedValueOnce({ action: "accept" });
+
+            const result = await runWorkflow(baseOptions({ ci: false }));
+
+            expect(result.ok).toBe(true);
+            expect(ollamaMock.ollamaChat).toHaveBeenCalledTimes(2);
+            expect(release).toHaveBeenCalledTimes(2);
+            const written = writeSpy.mock.calls.map(([chunk]) => String(chunk)).join("");
+            expect(written).toContain("(press any key to stop and regenerate)");
+            expect(written).toContain("Stopped. Regenerating...");
+            expect(gitMock.gitCommit).toHaveBeenCalledTimes(1);
+        } finally {
+            writeSpy.mockRestore();
+        }
+    });
+
+    it("does not treat provider aborts as a user stop when no key was pressed", async () => {
+        const writeSpy = vi.spyOn(process.stdout, "write").mockImplementation(() => true);
+        try {
+            ollamaMock.ollamaChat.mockRejectedValueOnce(new ProviderError("Ollama request was stopped.", "ABORTED"));
+
+            const result = await runWorkflow(baseOptions({ ci: false }));
+
+            expect(result.ok).toBe(false);
+            expect(result.exitCode).toBe(ExitCode.OllamaError);
+        } finally {
+            writeSpy.mockRestore();
+        }
+    });
+
     it("shows the selected message details instead of pre-printing all candidates", async () => {
         const logSpy = vi.spyOn(console, "log").mockImplementation(() => undefined);
         try {
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { detectBreakingChanges } from "../../src/breaking-changes.js";
+
+function fileDiff(path: string, lines: string[]): string {
+    return [`diff --git a/${path} b/${path}`, `--- a/${path}`, `+++ b/${path}`, "@@ -1,4 +1,4 @@", ...lines].join("\n");
+}
+
+describe("detectBreakingChanges", () => {
+    it("flags removed exports, changed signatures and removed CLI options", () => {
+        const diff = [
+            fileDiff("src/config.ts", [
+                "-export function loadRepoConfig(repoRoot: string) {",
+                "+export function loadRepoConfig(repoRoot: string, configPath: string) {",
+                "-export const DEFAULT_MODEL = \"llama3\";",
+                "-export function readLegacyConfig() {",
+                " export type RepoConfig = {"
+            ]),
+            fileDiff("src/cli.ts", [
+                "-        .option(\"--max-chars <n>\", \"Maximum diff characters\")",
+                "-        .option(\"-t, --type <type>\", \"Force a type\")",
+                "+        .option(\"-t, --type <type>\", \"Force a commit type\")"
+            ])
+        ].join("\n");
+
+        expect(detectBreakingChanges(diff)).toEqual([
+            "src/config.ts: removed export DEFAULT_MODEL",
+            "src/config.ts: removed export readLegacyConfig",
+            "src/config.ts: changed signature of loadRepoConfig",
+            "src/cli.ts: removed CLI option --max-chars"
+        ]);
+    });
+
+    it("ignores exports that move to another file and bodies that change without touching the signature", () => {
+        const diff = [
+            fileDiff("src/util.ts", ["-export function clampDiff(diff: string, max: number): string {"]),
+            fileDiff("src/diff-digest.ts", [
+                "+export function clampDiff(diff: string, max: number): string {",
+                "-export function buildDiffDigest(diff: string, maxChars: number) {",
+                "+export function buildDiffDigest(diff: string, maxChars: number)   {"
+            ])
+        ].join("\n");
+
+        expect(detectBreakingChanges(diff)).toEqual([]);
+    });
+
+    it("flags deleted config keys and major version bumps", () => {
+        const diff = [
+            fileDiff("config/defaults.yml", ["-timeout: 30", "-retries: 2", "+retries: 3"]),
+            fileDiff("package.json", ["-  \"version\": \"1.4.2\",", "+  \"version\": \"2.0.0\",", "-  \"left-pad\": \"^1.0.0\","]),
+            fileDiff("packages/ui/package.json", ["-  \"version\": \"0.3.1\",", "+  \"version\": \"0.4.0\","])
+        ].join("\n");
+
+        expect(detectBreakingChanges(diff)).toEqual([
+            "config/defaults.yml: removed config key timeout",
+            "package.json: major version bump 1.4.2 -> 2.0.0"
+        ]);
+    });
+
+    it("ignores removed keys in CI workflows, fixtures, translations and lockfiles", () => {
+        const diff = [
+            fileDiff(".github/workflows/ci.yml", ["-    timeout-minutes: 10", "-  lint:"]),
+            fileDiff("tests/fixtures/config.json", ["-  \"model\": \"llama3\","]),
+            fileDiff("src/locales/en.json", ["-  \"greeting\": \"Hello\","]),
+            fileDiff("package-lock.json", ["-    \"node_modules/left-pad\": {"])
+        ].join("\n");
+
+        expect(detectBreakingChanges(diff)).toEqual([]);
+    });
+});
@@ -0,0 +1,58 @@
+import { mkdir, mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { collectOwners, findFileOwners, loadCodeowners, parseCodeowners } from "../../src/codeowners.js";
+
+const CODEOWNERS = [
+    "# Default owners",
+    "*                 @acme/core",
+    "/docs/            @acme/docs @octocat # technical writers",
+    "*.md              @acme/docs",
+    "src/billing/      @acme/payments",
+    "src/billing/generated/"
+].join("\n");
+
+describe("parseCodeowners", () => {
+    it("skips comments and keeps owners up to an inline comment", () => {
+        expect(parseCodeowners(CODEOWNERS).map(({ pattern, owners }) => ({ pattern, owners }))).toEqual([
+            { pattern: "*", owners: ["@acme/core"] },
+            { pattern: "/docs/", owners: ["@acme/docs", "@octocat"] },
+            { pattern: "*.md", owners: ["@acme/docs"] },
+            { pattern: "src/billing/", owners: ["@acme/payments"] },
+            { pattern: "src/billing/generated/", owners: [] }
+        ]);
+    });
+});
+
+describe("findFileOwners", () => {
+    it("lets the last matching rule win", () => {
+        const rules = parseCodeowners(CODEOWNERS);
+
+        expect(findFileOwners("src/billing/stripe.ts", rules)).toEqual(["@acme/payments"]);
+        expect(findFileOwners("src/billing/README.md", rules)).toEqual(["@acme/payments"]);
+        expect(findFileOwners("docs/guide/setup.txt", rules)).toEqual(["@acme/docs", "@octocat"]);
+        expect(findFileOwners("src/cli.ts", rules)).toEqual(["@acme/core"]);
+        expect(findFileOwners("src/billing/generated/client.ts", rules)).toEqual([]);
+    });
+});
+
+describe("collectOwners", () => {
+    it("orders owners by how many staged files they own", () => {
+        const rules = parseCodeowners(CODEOWNERS);
+        expect(collectOwners(["src/billing/a.ts", "src/billing/b.ts", "README.md", "src/cli.ts"], rules))
+            .toEqual(["@acme/payments", "@acme/core", "@acme/docs"]);
+    });
+});
+
+describe("loadCodeowners", () => {
+    it("prefers .github/CODEOWNERS and returns no rules when none exists", async () => {
+        const repoDir = await mkdtemp(join(tmpdir(), "commitgen-codeowners-"));
+        await expect(loadCodeowners(repoDir)).resolves.toEqual([]);
+
+        await writeFile(join(repoDir, "CODEOWNERS"), "* @acme/root\n");
+        await mkdir(join(repoDir, ".github"));
+        await writeFile(join(repoDir, ".github", "CODEOWNERS"), "* @acme/github\n");
+        expect((await loadCodeowners(repoDir)).map((rule) => rule.owners)).toEqual([["@acme/github"]]);
+    });
+});
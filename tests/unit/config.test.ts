@@ -15,9 +15,11 @@ describe("loadRepoConfig", () => {
         const configPath = join(repoDir, ".commitgen.json");
 
         await writeFile(configPath, JSON.stringify({
+            provider: "openai",
             model: "repo-model",
             host: "http://repo-host",
             maxChars: 12000,
+            concurrency: 3,
             defaultScope: "cli",
             scopes: ["cli", "workflow"],
             ticketPattern: "([A-Z]+-\\d+)",
@@ -31,13 +33,16 @@ describe("loadRepoConfig", () => {
                 "src/cli": "cli"
             },
             subjectMaxLength: 60,
-            bodyRequiredTypes: ["feat"]
+            bodyRequiredTypes: ["feat"],
+            requireBreakingFooter: true
         }));
 
         await expect(loadRepoConfig(repoDir, null)).resolves.toEqual({
+            provider: "openai",
             model: "repo-model",
             host: "http://repo-host",
             maxChars: 12000,
+            concurrency: 3,
             defaultScope: "cli",
             scopes: ["cli", "workflow"],
             ticketPattern: "([A-Z]+-\\d+)",
@@ -51,7 +56,8 @@ describe("loadRepoConfig", () => {
                 "src/cli": "cli"
             },
             subjectMaxLength: 60,
-            bodyRequiredTypes: ["feat"]
+            bodyRequiredTypes: ["feat"],
+            requireBreakingFooter: true
         });
     });
 
@@ -87,6 +93,25 @@ describe("loadRepoConfig", () => {
             .toThrow("must contain only non-empty strings");
     });
 
+    it("loads prioritized scope map entries and rejects invalid globs", async () => {
+        const repoDir = await mkdtemp(join(tmpdir(), "commitgen-config-"));
+        const configPath = join(repoDir, ".commitgen.json");
+        await writeFile(configPath, JSON.stringify({ scopeMap: { "**/*.sql": { scope: " db ", priority: 2 }, "src/cli": "cli" } }));
+        await expect(loadRepoConfig(repoDir, null)).resolves.toEqual({
+            scopeMap: { "**/*.sql": { scope: "db", priority: 2 }, "src/cli": "cli" }
+        });
+
+        await writeFile(configPath, JSON.stringify({ scopeMap: { "src/*.{ts,tsx}": "src" } }));
+        await expect(loadRepoConfig(repoDir, null))
+            .rejects
+            .toThrow('Config field "scopeMap" has an invalid glob "src/*.{ts,tsx}": character classes and braces are not supported.');
+
+        await writeFile(configPath, JSON.stringify({ scopeMap: { "**/*.sql": { scope: "db", priority: 1.5 } } }));
+        await expect(loadRepoConfig(repoDir, null))
+            .rejects
+            .toThrow('Config field "scopeMap" must give "**/*.sql" an integer "priority".');
+    });
+
     it("throws for invalid ticket regex patterns", async () => {
         const repoDir = await mkdtemp(join(tmpdir(), "commitgen-config-"));
         const configPath = join(repoDir, ".commitgen.json");
@@ -110,4 +135,138 @@ describe("loadRepoConfig", () => {
             .rejects
             .toThrow("allowedTypes");
     });
+
+    it("throws for unknown provider values", async () => {
+        const repoDir = await mkdtemp(join(tmpdir(), "commitgen-config-"));
+        const configPath = join(repoDir, ".commitgen.json");
+        await writeFile(configPath, JSON.stringify({
+            provider: "anthropic"
+        }));
+
+        await expect(loadRepoConfig(repoDir, null))
+            .rejects
+            .toThrow('Config field "provider" must be one of: ollama, openai, heuristic.');
+    });
+
+    it("loads the generation strategy and rejects unknown ones", async () => {
+        const repoDir = await mkdtemp(join(tmpdir(), "commitgen-config-"));
+        const configPath = join(repoDir, ".commitgen.json");
+        await writeFile(configPath, JSON.stringify({ strategy: "map-reduce", mapReduceFactor: 6 }));
+        await expect(loadRepoConfig(repoDir, null)).resolves.toEqual({ strategy: "map-reduce", mapReduceFactor: 6 });
+
+        await writeFile(configPath, JSON.stringify({ strategy: "chunked" }));
+        await expect(loadRepoConfig(repoDir, null))
+            .rejects
+            .toThrow('Config field "strategy" must be one of: auto, direct, map-reduce.');
+    });
+
+    it("loads owner-to-scope mappings and rejects empty scopes", async () => {
+        const repoDir = await mkdtemp(join(tmpdir(), "commitgen-config-"));
+        const configPath = join(repoDir, ".commitgen.json");
+        await writeFile(configPath, JSON.stringify({ ownerScopes: { " @acme/payments ": "billing " } }));
+        await expect(loadRepoConfig(repoDir, null)).resolves.toEqual({ ownerScopes: { "@acme/payments": "billing" } });
+
+        await writeFile(configPath, JSON.stringify({ ownerScopes: { "@acme/payments": "" } }));
+        await expect(loadRepoConfig(repoDir, null))
+            .rejects
+            .toThrow('Config field "ownerScopes" must map "@acme/payments" to a non-empty string.');
+    });
+
+    it("loads the history selection and rejects unknown ones", async () => {
+        const repoDir = await mkdtemp(join(tmpdir(), "commitgen-config-"));
+        const configPath = join(repoDir, ".commitgen.json");
+        await writeFile(configPath, JSON.stringify({ historySelection: "recent" }));
+        await expect(loadRepoConfig(repoDir, null)).resolves.toEqual({ historySelection: "recent" });
+
+        await writeFile(configPath, JSON.stringify({ historySelection: "random" }));
+        await expect(loadRepoConfig(repoDir, null))
+            .rejects
+            .toThrow('Config field "historySelection" must be one of: recent, relevant.');
+    });
+
+    it("loads the workspace scope rule and rejects unknown ones", async () => {
+        const repoDir = await mkdtemp(join(tmpdir(), "commitgen-config-"));
+        const configPath = join(repoDir, ".commitgen.json");
+        await writeFile(configPath, JSON.stringify({ workspaceScope: "Multi" }));
+        await expect(loadRepoConfig(repoDir, null)).resolves.toEqual({ workspaceScope: "multi" });
+
+        await writeFile(configPath, JSON.stringify({ workspaceScope: "first" }));
+        await expect(loadRepoConfig(repoDir, null))
+            .rejects
+            .toThrow('Config field "workspaceScope" must be one of: join, multi.');
+    });
+
+    it("appends .commitgenignore patterns after promptExclude", async () => {
+        const repoDir = await mkdtemp(join(tmpdir(), "commitgen-config-"));
+        await writeFile(join(repoDir, ".commitgenignore"), "# generated code\nsrc/generated/\n\n!dist/types/\n");
+        await expect(loadRepoConfig(repoDir, null)).resolves.toEqual({ promptExclude: ["src/generated/", "!dist/types/"] });
+
+        await writeFile(join(repoDir, ".commitgen.json"), JSON.stringify({ promptExclude: ["*.snap"] }));
+        await expect(loadRepoConfig(repoDir, null)).resolves.toEqual({
+            promptExclude: ["*.snap", "src/generated/", "!dist/types/"]
+        });
+    });
+
+    it("rejects unsupported globs in promptExclude and .commitgenignore", async () => {
+        const repoDir = await mkdtemp(join(tmpdir(), "commitgen-config-"));
+        await writeFile(join(repoDir, ".commitgen.json"), JSON.stringify({ promptExclude: ["src/*.{ts,tsx}"] }));
+        await expect(loadRepoConfig(repoDir, null))
+            .rejects
+            .toThrow('Config field "promptExclude" has an invalid glob "src/*.{ts,tsx}": character classes and braces are not supported.');
+
+        await writeFile(join(repoDir, ".commitgen.json"), JSON.stringify({}));
+        await writeFile(join(repoDir, ".commitgenignore"), "src/generated/\nlib/**.js\n");
+        await expect(loadRepoConfig(repoDir, null))
+            .rejects
+            .toThrow('has an invalid glob "lib/**.js": ** must be a whole path segment.');
+    });
+
+    it("loads secret redaction settings and rejects invalid patterns", async () => {
+        const repoDir = await mkdtemp(join(tmpdir(), "commitgen-config-"));
+        const configPath = join(repoDir, ".commitgen.json");
+        await writeFile(configPath, JSON.stringify({ redactPatterns: ["ACME-\\d+"], blockOnSecrets: true }));
+        await expect(loadRepoConfig(repoDir, null)).resolves.toEqual({ redactPatterns: ["ACME-\\d+"], blockOnSecrets: true });
+
+        await writeFile(configPath, JSON.stringify({ redactPatterns: ["(unclosed"] }));
+        await expect(loadRepoConfig(repoDir, null))
+            .rejects
+            .toThrow('Config field "redactPatterns" contains an invalid regular expression');
+    });
+
+    it("loads model options and rejects invalid ones", async () => {
+        const repoDir = await mkdtemp(join(tmpdir(), "commitgen-config-"));
+        const configPath = join(repoDir, ".commitgen.json");
+
+        await writeFile(configPath, JSON.stringify({
+            modelOptions: { temperature: 0, seed: 42, numCtx: 16384, topP: 0.9 }
+        }));
+        await expect(loadRepoConfig(repoDir, null)).resolves.toEqual({
+            modelOptions: { temperature: 0, seed: 42, numCtx: 16384, topP: 0.9 }
+        });
+
+        const invalidCases: Array<[unknown, string]> = [
+            [[], 'Config field "modelOptions" must be an object.'],
+            [{ num_ctx: 8192 }, 'Config field "modelOptions" has unknown option "num_ctx". Use: temperature, seed, numCtx, topP.'],
+            [{ seed: 1.5 }, 'Config field "modelOptions.seed" must be an integer.'],
+            [{ temperature: "hot" }, 'Config field "modelOptions.temperature" must be a number.'],
+            [{ topP: 1.5 }, 'Config field "modelOptions.topP" must be between 0 and 1.']
+        ];
+        for (const [modelOptions, message] of invalidCases) {
+            await writeFile(configPath, JSON.stringify({ modelOptions }));
+            await expect(loadRepoConfig(repoDir, null)).rejects.toThrow(message);
+        }
+    });
+
+    it("accepts an ordered model fallback list", async () => {
+        const repoDir = await mkdtemp(join(tmpdir(), "commitgen-config-"));
+        const configPath = join(repoDir, ".commitgen.json");
+
+        await writeFile(configPath, JSON.stringify({ model: ["gpt-oss:120b-cloud", " llama3.1:8b "] }));
+        await expect(loadRepoConfig(repoDir, null)).resolves.toEqual({
+            model: ["gpt-oss:120b-cloud", "llama3.1:8b"]
+        });
+
+        await writeFile(configPath, JSON.stringify({ model: [] }));
+        await expect(loadRepoConfig(repoDir, null)).rejects.toThrow('Config field "model" must list at least one model.');
+    });
 });
@@ -1,5 +1,7 @@
 import { describe, expect, it } from "vitest";
-import { inferScopeFromFiles, inferTicketFromBranch } from "../../src/context.js";
+import { parseCodeowners } from "../../src/codeowners.js";
+import { inferMappedScope, inferScope, inferScopeFromFiles, inferScopeFromOwners, inferTicketFromBranch } from "../../src/context.js";
+import { toPathHistoryEntry } from "../../src/path-history.js";
 
 describe("inferScopeFromFiles", () => {
     it("returns null when top-level dirs are structural noise (src)", () => {
@@ -28,6 +30,24 @@ describe("inferScopeFromFiles", () => {
         })).toBe("cli");
     });
 
+    it("matches scope map globs, honours negations and lets priority beat specificity", () => {
+        const scopeMap = {
+            "packages/*/api/**": "api",
+            "!packages/legacy/**": "api",
+            "**/*.sql": "db",
+            "packages/billing": "billing",
+            "packages/billing/migrations": { scope: "billing-db", priority: -1 },
+            "docs": { scope: "docs", priority: 5 }
+        };
+
+        expect(inferScopeFromFiles(["packages/search/api/routes.ts", "packages/users/api/index.ts"], scopeMap)).toBe("api");
+        expect(inferScopeFromFiles(["packages/search/api/schema.sql"], scopeMap)).toBe("api");
+        expect(inferMappedScope(["packages/legacy/api/routes.ts"], scopeMap)).toBeNull();
+        expect(inferScopeFromFiles(["db/001_init.sql", "db/002_users.sql"], scopeMap)).toBe("db");
+        expect(inferScopeFromFiles(["packages/billing/migrations/001.sql"], scopeMap)).toBe("billing");
+        expect(inferScopeFromFiles(["docs/schema.sql"], scopeMap)).toBe("docs");
+    });
+
     it("returns file stem for a single test file (strips .test suffix)", () => {
         expect(inferScopeFromFiles([
             "tests/unit/workflow.test.ts"
@@ -79,6 +99,67 @@ describe("inferScopeFromFiles", () => {
             "README.md"
         ])).toBeNull();
     });
+
+    it("uses the owning workspace package and ignores files outside every package", () => {
+        const packages = [
+            { name: "api", path: "packages/api" },
+            { name: "web", path: "apps/web" },
+            { name: "web-e2e", path: "apps/web/e2e" }
+        ];
+
+        expect(inferScopeFromFiles(["packages/api/src/routes.ts", "package-lock.json"], {}, packages)).toBe("api");
+        expect(inferScopeFromFiles(["apps/web/e2e/login.spec.ts"], {}, packages)).toBe("web-e2e");
+        expect(inferScopeFromFiles([
+            "apps/web/src/app.tsx",
+            "packages/api/src/routes.ts",
+            "packages/api/src/server.ts"
+        ], {}, packages)).toBe("api,web");
+        expect(inferScopeFromFiles(["apps/web/src/app.tsx", "packages/api/src/routes.ts"], {}, packages, "multi")).toBe("multi");
+        expect(inferScopeFromFiles(["packages/api/src/routes.ts"], { "packages/api": "backend" }, packages)).toBe("backend");
+    });
+});
+
+describe("inferScopeFromOwners", () => {
+    const rules = parseCodeowners("* @acme/core\nsrc/billing/ @acme/payments @octocat\nsrc/search/ @acme/search");
+
+    it("maps the owners of most staged files to their configured scope", () => {
+        expect(inferScopeFromOwners(
+            ["src/billing/stripe.ts", "src/billing/invoice.ts", "README.md"],
+            rules,
+            { "@octocat": "octo", "@acme/payments": "billing" }
+        )).toBe("billing");
+        expect(inferScopeFromOwners(["src/billing/stripe.ts", "src/search/index.ts"], rules, { "@acme/payments": "billing" }))
+            .toBeNull();
+        expect(inferScopeFromOwners(["src/billing/stripe.ts"], rules, {})).toBeNull();
+        expect(inferScopeFromOwners(["src/billing/stripe.ts"], [], { "@acme/payments": "billing" })).toBeNull();
+    });
+});
+
+describe("inferScope", () => {
+    const sources = {
+        scopeMap: {},
+        codeowners: parseCodeowners("src/billing/ @acme/payments"),
+        ownerScopes: {},
+        packages: [],
+        workspaceScope: "join" as const,
+        pathHistory: [toPathHistoryEntry("fix(payments): retry webhooks", ["src/billing/webhooks.ts"])]
+    };
+
+    it("tries learned scopes after the rule-based sources and before path heuristics", () => {
+        const files = ["src/billing/webhooks.ts", "src/billing/refunds.ts"];
+
+        expect(inferScope(files, sources)).toEqual({
+            scope: "payments",
+            source: "history",
+            confidence: 1,
+            reasons: ["1 past commit touching these paths used scope payments"]
+        });
+        expect(inferScope(files, { ...sources, ownerScopes: { "@acme/payments": "billing" } }))
+            .toEqual({ scope: "billing", source: "codeowners", confidence: null, reasons: [] });
+        expect(inferScope(files, { ...sources, pathHistory: [] }))
+            .toEqual({ scope: "billing", source: "changed-files", confidence: null, reasons: [] });
+        expect(inferScope([], sources)).toBeNull();
+    });
 });
 
 describe("inferTicketFromBranch", () => {
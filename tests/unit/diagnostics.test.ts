@@ -9,21 +9,43 @@ function baseContext(overrides: Partial<RepoContext> = {}): RepoContext {
         gitDir: "/repo/.git",
         diff: "diff --git a/src/cli.ts b/src/cli.ts\n+const x = 1;",
         files: ["src/cli.ts"],
+        changes: [],
+        touchedSymbols: [],
+        breakingChanges: [],
         branch: "feature/ABC-123-add-baseline",
+        owners: ["@acme/cli-team"],
         suggestedScope: "cli",
+        scopeInference: { scope: "cli", source: "changed-files", confidence: null, reasons: [] },
         effectiveScope: "cli",
         ticket: "ABC-123",
         recentExamples: [],
         expectedType: "feat",
+        typeInference: { type: "feat", confidence: 0.75, source: "diff", reasons: ["inferred from the staged diff"] },
         historyPath: null,
+        cachePath: null,
+        redactions: {},
+        diffGroups: null,
+        promptBudget: {
+            contextTokens: null,
+            promptTokens: 400,
+            diffTokens: 100,
+            diffChars: 400,
+            maxDiffChars: 16000,
+            truncated: false
+        },
         ...overrides
     };
 }
 
 function baseOptions(overrides: Partial<ResolvedWorkflowOptions> = {}): ResolvedWorkflowOptions {
     return {
+        provider: "ollama",
         model: "gpt-oss:120b-cloud",
+        modelChain: { models: ["gpt-oss:120b-cloud"], activeIndex: 0 },
         host: "http://localhost:11434",
+        apiKey: null,
+        recording: null,
+        modelOptions: {},
         maxChars: 16000,
         type: null,
         scope: null,
@@ -36,9 +58,18 @@ function baseOptions(overrides: Partial<ResolvedWorkflowOptions> = {}): Resolved
         retries: 2,
         output: "json",
         candidates: 2,
+        concurrency: 1,
+        promptExclude: [],
+        redactPatterns: [],
+        blockOnSecrets: false,
+        strategy: "auto",
+        mapReduceFactor: 4,
+        workspaceScope: "join",
         ticket: null,
         historyEnabled: false,
         historySampleSize: 5,
+        historySelection: "relevant",
+        cacheEnabled: false,
         ticketPattern: "([A-Z][A-Z0-9]+-\\d+)",
         defaultScope: null,
         knownScopes: [],
@@ -65,8 +96,13 @@ function rankedCandidate(overrides: Partial<RankedCandidate> = {}): RankedCandid
             expectedScopePoints: 1_000,
             ticketFooterPresent: true,
             ticketFooterPoints: 100,
+            touchedSymbolMentioned: false,
+            touchedSymbolPoints: 0,
             genericDescriptionPenalty: false,
             genericDescriptionPoints: 0,
+            unknownReferencePenalty: false,
+            unknownReferencePoints: 0,
+            unknownReferences: [],
             total: 1_111_100
         },
         ...overrides
@@ -97,17 +133,32 @@ describe("buildWorkflowDiagnostics", () => {
 
         expect(diagnostics.context.expectedType).toEqual({
             value: "feat",
-            source: "diff"
+            source: "diff",
+            confidence: 0.75,
+            reasons: ["inferred from the staged diff"]
         });
         expect(diagnostics.context.scope).toEqual({
             suggested: "cli",
             effective: "cli",
-            source: "changed-files"
+            source: "changed-files",
+            confidence: null,
+            reasons: [],
+            owners: ["@acme/cli-team"]
         });
         expect(diagnostics.context.ticket).toEqual({
             value: "ABC-123",
             source: "branch"
         });
+        expect(diagnostics.context.tokens).toEqual({
+            contextWindow: null,
+            estimatedPrompt: 400,
+            estimatedDiff: 100,
+            diffChars: 400,
+            maxDiffChars: 16000,
+            truncated: false
+        });
+        expect(diagnostics.context.redactions).toEqual([]);
+        expect(diagnostics.context.examples).toEqual({ selection: "relevant", subjects: [] });
         expect(diagnostics.selected?.final.scope).toEqual({
             value: "cli",
             source: "changed-files"
@@ -141,8 +192,13 @@ describe("buildWorkflowDiagnostics", () => {
                     expectedScopePoints: 0,
                     ticketFooterPresent: false,
                     ticketFooterPoints: 0,
+                    touchedSymbolMentioned: false,
+                    touchedSymbolPoints: 0,
                     genericDescriptionPenalty: false,
                     genericDescriptionPoints: 0,
+                    unknownReferencePenalty: false,
+                    unknownReferencePoints: 0,
+                    unknownReferences: [],
                     total: 100_000
                 }
             }),
@@ -195,13 +251,48 @@ describe("buildWorkflowDiagnostics", () => {
         });
     });
 
+    it("reports the subjects of the history examples sent to the model", () => {
+        const diagnostics = buildWorkflowDiagnostics(
+            baseContext({ recentExamples: ["feat(cli): add flag\n\nRefs ABC-1", "fix: handle empty diff"] }),
+            baseOptions({ historySelection: "recent" }),
+            rankedCandidate()
+        );
+
+        expect(diagnostics.context.examples).toEqual({
+            selection: "recent",
+            subjects: ["feat(cli): add flag", "fix: handle empty diff"]
+        });
+    });
+
+    it("lists only the history examples the prompt has room for", () => {
+        const diagnostics = buildWorkflowDiagnostics(
+            baseContext({ recentExamples: ["feat: one", "fix: two", "docs: three", "chore: four", "test: five"] }),
+            baseOptions({ historySampleSize: 5 }),
+            rankedCandidate()
+        );
+
+        expect(diagnostics.context.examples.subjects).toEqual(["feat: one", "fix: two", "docs: three"]);
+    });
+
+    it("credits CODEOWNERS when the suggested scope came from owner mappings", () => {
+        const diagnostics = buildWorkflowDiagnostics(
+            baseContext({ scopeInference: { scope: "cli", source: "codeowners", confidence: null, reasons: [] } }),
+            baseOptions(),
+            rankedCandidate()
+        );
+
+        expect(diagnostics.context.scope.source).toBe("codeowners");
+        expect(diagnostics.selected?.final.scope.source).toBe("codeowners");
+    });
+
     it("falls back to default-config scope source and recomputes missing validation details", () => {
         const diagnostics = buildWorkflowDiagnostics(
             baseContext({
                 suggestedScope: null,
                 effectiveScope: "docs",
                 ticket: null,
-                expectedType: null
+                expectedType: null,
+                typeInference: null
             }),
             baseOptions({
                 defaultScope: "docs",
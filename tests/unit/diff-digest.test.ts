@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { buildDiffDigest, buildDiffGroups, excludeDiffFiles, MAX_DIFF_GROUPS, parseDiffSections } from "../../src/diff-digest.js";
+
+function fileDiff(path: string, hunks: string[][]): string {
+    return [
+        `diff --git a/${path} b/${path}`,
+        "index 1111111..2222222 100644",
+        `--- a/${path}`,
+        `+++ b/${path}`,
+        ...hunks.flat()
+    ].join("\n");
+}
+
+function hunk(start: number, count: number, prefix = "+"): string[] {
+    return [
+        `@@ -${start},0 +${start},${count} @@`,
+        ...Array.from({ length: count }, (_, index) => `${prefix}line ${start + index}`)
+    ];
+}
+
+describe("diff digest", () => {
+    it("parses per-file sections with hunks and change counts", () => {
+        const sections = parseDiffSections(`${fileDiff("src/a.ts", [hunk(1, 2), hunk(10, 1, "-")])}\n${fileDiff("README.md", [hunk(1, 1)])}\n`);
+
+        expect(sections.map((section) => [section.path, section.hunks.length, section.insertions, section.deletions])).toEqual([
+            ["src/a.ts", 2, 2, 1],
+            ["README.md", 1, 1, 0]
+        ]);
+        expect(sections[0].header).toEqual([
+            "diff --git a/src/a.ts b/src/a.ts",
+            "index 1111111..2222222 100644",
+            "--- a/src/a.ts",
+            "+++ b/src/a.ts"
+        ]);
+    });
+
+    it("keeps small diffs whole behind a diffstat header", () => {
+        const diff = fileDiff("src/a.ts", [hunk(1, 2)]);
+        const digest = buildDiffDigest(diff, 16000);
+
+        expect(digest.truncated).toBe(false);
+        expect(digest.text).toBe(`Diffstat: 1 file changed, +2 -0\n src/a.ts | +2 -0\n\n${diff}`);
+    });
+
+    it("keeps every file in the digest and collapses hunks beyond each file's fair share", () => {
+        const diff = [
+            fileDiff("src/big-a.ts", [hunk(1, 120), hunk(200, 120)]),
+            fileDiff("src/middle.ts", [hunk(1, 3)]),
+            fileDiff("src/big-b.ts", [hunk(1, 120), hunk(200, 120)])
+        ].join("\n");
+
+        const digest = buildDiffDigest(diff, 3000);
+
+        expect(digest.truncated).toBe(true);
+        expect(digest.text.length).toBeLessThanOrEqual(3000);
+        expect(digest.text).toContain("Diffstat: 3 files changed, +483 -0");
+        expect(digest.text).toContain(" src/middle.ts | +3 -0");
+        expect(digest.text).toContain(fileDiff("src/middle.ts", [hunk(1, 3)]));
+        expect(digest.text).toContain("diff --git a/src/big-b.ts b/src/big-b.ts");
+        expect(digest.text.match(/\.\.\. \d+ more lines changed/g)).toHaveLength(2);
+        expect(digest.text).toContain("+line 120\n@@ -200,0 +200,120 @@");
+        expect(digest.text).not.toContain("+line 319");
+    });
+
+    it("counts collapsed lines across the cut hunk and the hunks after it", () => {
+        const digest = buildDiffDigest(fileDiff("src/a.ts", [hunk(1, 40), hunk(100, 10, "-")]), 500);
+        const kept = digest.text.split("\n").filter((line) => line.startsWith("+line")).length;
+
+        expect(digest.text).toContain(`... ${40 - kept + 10} more lines changed`);
+    });
+
+    it("lists at most fifty files in the diffstat and enforces the hard limit", () => {
+        const diff = Array.from({ length: 60 }, (_, index) => fileDiff(`src/file-${index}.ts`, [hunk(1, 1)])).join("\n");
+        const digest = buildDiffDigest(diff, 100000);
+        expect(digest.text).toContain(" ... and 10 more files");
+        expect(digest.text).toContain("diff --git a/src/file-59.ts b/src/file-59.ts");
+
+        const tiny = buildDiffDigest(diff, 500);
+        expect(tiny.truncated).toBe(true);
+        expect(tiny.text.length).toBeLessThanOrEqual(500);
+    });
+
+    it("falls back to head and tail clamping when the input has no file sections", () => {
+        expect(buildDiffDigest("x".repeat(1000), 100)).toMatchObject({ truncated: true });
+        expect(buildDiffDigest("plain text", 100)).toEqual({ text: "plain text", truncated: false });
+    });
+
+    it("packs files into groups in diff order and caps the number of groups", () => {
+        const diff = ["src/a.ts", "src/b.ts", "docs/c.md"].map((path) => fileDiff(path, [hunk(1, 20)])).join("\n");
+        const groups = buildDiffGroups(diff, 600);
+
+        expect(groups.map((group) => group.files)).toEqual([["src/a.ts", "src/b.ts"], ["docs/c.md"]]);
+        expect(groups[0].diff).toContain("Diffstat: 2 files changed, +40 -0");
+
+        const many = Array.from({ length: 40 }, (_, index) => fileDiff(`src/file-${index}.ts`, [hunk(1, 20)])).join("\n");
+        const capped = buildDiffGroups(many, 300);
+        expect(capped).toHaveLength(MAX_DIFF_GROUPS);
+        expect(capped.flatMap((group) => group.files)).toHaveLength(40);
+        expect(capped.every((group) => group.diff.length <= 300)).toBe(true);
+        expect(buildDiffGroups("plain text", 100)).toEqual([{ files: [], diff: "plain text" }]);
+    });
+
+    it("replaces excluded and binary files with a one-line note", () => {
+        const binary = "diff --git a/logo.png b/logo.png\nindex 1111111..2222222 100644\nBinary files a/logo.png and b/logo.png differ\n";
+        const diff = `${fileDiff("package-lock.json", [hunk(1, 30), hunk(50, 4, "-")])}\n${binary}${fileDiff("src/a.ts", [hunk(1, 2)])}`;
+
+        expect(excludeDiffFiles(diff, (path) => path === "package-lock.json")).toBe([
+            "diff --git a/package-lock.json b/package-lock.json",
+            "... diff excluded from the prompt (+30 -4)",
+            "diff --git a/logo.png b/logo.png",
+            "... diff excluded from the prompt (+0 -0)",
+            fileDiff("src/a.ts", [hunk(1, 2)])
+        ].join("\n"));
+        expect(excludeDiffFiles("plain text", () => true)).toBe("plain text");
+    });
+});
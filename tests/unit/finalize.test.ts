@@ -36,21 +36,43 @@ function baseContext(overrides: Partial<RepoContext> = {}): RepoContext {
         gitDir: "/repo/.git",
         diff: "diff --git a/src/a.ts b/src/a.ts\n+const x = 1;",
         files: ["src/a.ts"],
+        changes: [],
+        touchedSymbols: [],
+        breakingChanges: [],
         branch: "feature/add-thing",
+        owners: [],
         suggestedScope: null,
+        scopeInference: null,
         effectiveScope: null,
         ticket: null,
         recentExamples: [],
         expectedType: null,
+        typeInference: null,
         historyPath: "/repo/.git/commitgen/history.jsonl",
+        cachePath: null,
+        redactions: {},
+        diffGroups: null,
+        promptBudget: {
+            contextTokens: null,
+            promptTokens: 400,
+            diffTokens: 100,
+            diffChars: 400,
+            maxDiffChars: 16000,
+            truncated: false
+        },
         ...overrides
     };
 }
 
 function baseOptions(overrides: Partial<ResolvedWorkflowOptions> = {}): ResolvedWorkflowOptions {
     return {
+        provider: "ollama",
         model: "llama3",
+        modelChain: { models: ["llama3"], activeIndex: 0 },
         host: "http://localhost:11434",
+        apiKey: null,
+        recording: null,
+        modelOptions: {},
         maxChars: 10000,
         type: null,
         scope: null,
@@ -63,9 +85,18 @@ function baseOptions(overrides: Partial<ResolvedWorkflowOptions> = {}): Resolved
         retries: 2,
         output: "text",
         candidates: 1,
+        concurrency: 1,
+        promptExclude: [],
+        redactPatterns: [],
+        blockOnSecrets: false,
+        strategy: "auto",
+        mapReduceFactor: 4,
+        workspaceScope: "join",
         ticket: null,
         historyEnabled: true,
         historySampleSize: 3,
+        historySelection: "relevant",
+        cacheEnabled: false,
         ticketPattern: "([A-Z][A-Z0-9]+-\\d+)",
         defaultScope: null,
         knownScopes: [],
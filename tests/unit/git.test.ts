@@ -9,9 +9,10 @@ vi.mock("execa", () => ({
 const {
     getCurrentBranch,
     getGitDir,
+    getRecentCommits,
     getRepoRoot,
+    getStagedChanges,
     getStagedDiff,
-    getStagedFiles,
     gitCommit,
     hasStagedChanges,
     isGitRepo
@@ -46,10 +47,14 @@ describe("git helpers", () => {
     it("reads staged diff and file lists", async () => {
         execaMock
             .mockResolvedValueOnce({ stdout: "diff --git a/src/a.ts b/src/a.ts" })
-            .mockResolvedValueOnce({ stdout: "src/a.ts\nREADME.md\n" });
+            .mockResolvedValueOnce({ stdout: "M\0src/a.ts\0R100\0old.md\0README.md\0" });
 
         await expect(getStagedDiff()).resolves.toBe("diff --git a/src/a.ts b/src/a.ts");
-        await expect(getStagedFiles()).resolves.toEqual(["src/a.ts", "README.md"]);
+        await expect(getStagedChanges()).resolves.toMatchObject([
+            { path: "src/a.ts", status: "modified", previousPath: null },
+            { path: "README.md", status: "renamed", previousPath: "old.md", similarity: 100 }
+        ]);
+        expect(execaMock).toHaveBeenLastCalledWith("git", ["diff", "--staged", "--name-status", "--find-renames", "-z", "--"]);
     });
 
     it("reads repo root, git dir, and branch name", async () => {
@@ -65,6 +70,19 @@ describe("git helpers", () => {
         await expect(getCurrentBranch()).resolves.toBeNull();
     });
 
+    it("reads recent commit subjects with their files and treats a failing log as no history", async () => {
+        execaMock
+            .mockResolvedValueOnce({ stdout: "\x1efix(parser): handle empty input\n\nsrc/parser.ts\ntests/parser.test.ts\n\x1edocs: update readme\n\nREADME.md" })
+            .mockRejectedValueOnce(new Error("your current branch does not have any commits yet"));
+
+        await expect(getRecentCommits(50)).resolves.toEqual([
+            { subject: "fix(parser): handle empty input", files: ["src/parser.ts", "tests/parser.test.ts"] },
+            { subject: "docs: update readme", files: ["README.md"] }
+        ]);
+        expect(execaMock).toHaveBeenLastCalledWith("git", ["log", "-n50", "--no-merges", "--name-only", "--format=%x1e%s"]);
+        await expect(getRecentCommits(50)).resolves.toEqual([]);
+    });
+
     it("passes the commit message and no-verify flag through to git commit", async () => {
         execaMock.mockResolvedValue({});
 
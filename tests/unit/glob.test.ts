@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { createPathMatcher, findGlobError, globToRegExp, parseIgnoreFile } from "../../src/glob.js";
+
+describe("glob matching", () => {
+    it("matches slash-free patterns at any depth and anchors the rest to the repo root", () => {
+        expect(globToRegExp("package-lock.json").test("packages/app/package-lock.json")).toBe(true);
+        expect(globToRegExp("*.min.js").test("public/vendor/app.min.js")).toBe(true);
+        expect(globToRegExp("*.min.js").test("src/min.ts")).toBe(false);
+        expect(globToRegExp("/docs/*.md").test("docs/intro.md")).toBe(true);
+        expect(globToRegExp("/docs/*.md").test("packages/docs/intro.md")).toBe(false);
+        expect(globToRegExp("docs/*.md").test("docs/guide/intro.md")).toBe(false);
+        expect(globToRegExp("src/**/*.snap").test("src/a/b/view.test.ts.snap")).toBe(true);
+        expect(globToRegExp("src/**/*.snap").test("src/view.snap")).toBe(true);
+        expect(globToRegExp("file-?.txt").test("file-1.txt")).toBe(true);
+    });
+
+    it("covers everything below a matching directory", () => {
+        expect(globToRegExp("dist/").test("packages/app/dist/index.js")).toBe(true);
+        expect(globToRegExp("dist/").test("dist")).toBe(false);
+        expect(globToRegExp("generated").test("src/generated/schema.ts")).toBe(true);
+    });
+
+    it("lets later negated patterns bring paths back", () => {
+        const matches = createPathMatcher(["dist/", "!dist/types/", "*.d.ts"]);
+
+        expect(matches("dist/index.js")).toBe(true);
+        expect(matches("dist/types/index.js")).toBe(false);
+        expect(matches("dist/types/index.d.ts")).toBe(true);
+        expect(matches("src/index.ts")).toBe(false);
+        expect(createPathMatcher([])("yarn.lock")).toBe(false);
+    });
+
+    it("explains globs it cannot match as written", () => {
+        expect(findGlobError("packages/*/api/**")).toBeNull();
+        expect(findGlobError("!**/*.sql")).toBeNull();
+        expect(findGlobError("!/")).toBe("it must name a path");
+        expect(findGlobError("src/*.{ts,tsx}")).toBe("character classes and braces are not supported");
+        expect(findGlobError("src/***/x")).toBe("use ** to match any depth");
+        expect(findGlobError("src/**.ts")).toBe("** must be a whole path segment");
+    });
+
+    it("reads ignore files without blank lines or comments", () => {
+        expect(parseIgnoreFile("# generated\nschema.graphql\r\n\n  fixtures/  \n")).toEqual(["schema.graphql", "fixtures/"]);
+    });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it, vi } from "vitest";
+import { buildHeuristicMessage, heuristicChat, isHeuristicFallback, type HeuristicChanges } from "../../src/heuristic.js";
+
+function changes(overrides: Partial<HeuristicChanges> = {}): HeuristicChanges {
+    return {
+        diff: "",
+        files: [],
+        type: null,
+        scope: null,
+        allowedTypes: [],
+        ...overrides
+    };
+}
+
+function fileDiff(path: string, lines: string[], header: string[] = []): string {
+    return [`diff --git a/${path} b/${path}`, ...header, `--- a/${path}`, `+++ b/${path}`, ...lines].join("\n");
+}
+
+describe("buildHeuristicMessage", () => {
+    it("names markdown changes after the section they touch", () => {
+        expect(buildHeuristicMessage(changes({
+            diff: fileDiff("README.md", ["@@ -40,6 +40,8 @@ ## Installation", "+Run `npm install` first."]),
+            files: ["README.md"],
+            scope: "readme"
+        }))).toBe("docs(readme): update installation section");
+
+        expect(buildHeuristicMessage(changes({
+            diff: fileDiff("docs/guide.md", ["@@ -1,2 +1,4 @@", "+## Troubleshooting", "+Check the logs."]),
+            files: ["docs/guide.md"]
+        }))).toBe("docs(guide): update troubleshooting section");
+    });
+
+    it("names code changes after the touched declaration", () => {
+        expect(buildHeuristicMessage(changes({
+            diff: fileDiff("src/config.ts", ["@@ -10,4 +10,5 @@ function parseRepoConfig(input: unknown) {", "+    const extra = 1;"]),
+            files: ["src/config.ts"]
+        }))).toBe("chore(config): update parseRepoConfig");
+
+        expect(buildHeuristicMessage(changes({
+            diff: fileDiff("src/cache.ts", ["@@ -0,0 +1,3 @@", "+export async function readCache() {", "+}"], ["new file mode 100644"]),
+            files: ["src/cache.ts"]
+        }))).toBe("feat(cache): add readCache");
+    });
+
+    it("describes removals, renames and forced types", () => {
+        expect(buildHeuristicMessage(changes({
+            diff: fileDiff("src/legacy.ts", ["@@ -1,2 +0,0 @@", "-const a = 1;"], ["deleted file mode 100644"]),
+            files: ["src/legacy.ts"]
+        }))).toBe("chore(legacy): remove legacy");
+
+        expect(buildHeuristicMessage(changes({
+            diff: ["diff --git a/src/old.ts b/src/new.ts", "similarity index 100%", "rename from src/old.ts", "rename to src/new.ts"].join("\n"),
+            files: ["src/new.ts"],
+            type: "refactor",
+            scope: "core"
+        }))).toBe("refactor(core): rename new");
+    });
+
+    it("lists several files in the subject and a diffstat body", () => {
+        const diff = [
+            fileDiff("src/cli.ts", ["@@ -1 +1,2 @@", "+a", "-b"]),
+            fileDiff("src/workflow.ts", ["@@ -1 +1,2 @@", "+a", "+b"])
+        ].join("\n");
+
+        expect(buildHeuristicMessage(changes({ diff, files: ["src/cli.ts", "src/workflow.ts"] })))
+            .toBe("chore: update cli and workflow\n\n- src/cli.ts (+1 -1)\n- src/workflow.ts (+2 -0)");
+    });
+
+    it("counts files when there are too many to name and caps the body", () => {
+        const files = ["a.ts", "b.ts", "c.ts", "d.ts", "e.ts", "f.ts"];
+
+        expect(buildHeuristicMessage(changes({ files }))).toBe([
+            "chore: update 6 files",
+            "",
+            "- a.ts",
+            "- b.ts",
+            "- c.ts",
+            "- d.ts",
+            "- e.ts",
+            "- and 1 more"
+        ].join("\n"));
+    });
+
+    it("keeps to the allowed types and falls back to the diff file list", () => {
+        const diff = fileDiff("src/feature.ts", ["@@ -0,0 +1 @@", "+x"], ["new file mode 100644"]);
+
+        expect(buildHeuristicMessage(changes({ diff, allowedTypes: ["fix", "chore"] })))
+            .toBe("chore(feature): add feature");
+        expect(buildHeuristicMessage(changes({ diff, allowedTypes: ["fix", "docs"] })))
+            .toBe("fix(feature): add feature");
+        expect(buildHeuristicMessage(changes())).toBe("chore: update files");
+    });
+
+    it("shortens long section names", () => {
+        expect(buildHeuristicMessage(changes({
+            diff: fileDiff("README.md", ["+## Configuring the commit message generator for monorepo workspaces"]),
+            files: ["README.md"]
+        }))).toBe("docs: update configuring the commit message section");
+    });
+});
+
+describe("heuristicChat", () => {
+    it("returns the message as JSON and reports it as progress", async () => {
+        const onProgress = vi.fn();
+
+        await expect(heuristicChat({
+            model: "heuristic",
+            messages: [],
+            onProgress,
+            changes: changes({ diff: fileDiff("README.md", ["+more"]), files: ["README.md"] })
+        })).resolves.toBe("{\"message\":\"docs: update readme\"}");
+        expect(onProgress).toHaveBeenCalledWith("{\"message\":\"docs: update readme\"}");
+    });
+
+    it("needs the staged changes", async () => {
+        await expect(heuristicChat({ model: "heuristic", messages: [] })).rejects.toMatchObject({ code: "INVALID_RESPONSE" });
+    });
+});
+
+describe("isHeuristicFallback", () => {
+    it("is true only when the heuristic replaced another model", () => {
+        expect(isHeuristicFallback({ value: "heuristic", requested: "llama3" })).toBe(true);
+        expect(isHeuristicFallback({ value: "heuristic", requested: "heuristic" })).toBe(false);
+        expect(isHeuristicFallback({ value: "llama3", requested: "llama3" })).toBe(false);
+    });
+});
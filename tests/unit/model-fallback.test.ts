@@ -0,0 +1,103 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+    createModelChain,
+    getActiveModel,
+    getRequestedModel,
+    parseModelList,
+    runWithModelFallback
+} from "../../src/model-fallback.js";
+import { ProviderError } from "../../src/provider-http.js";
+
+describe("parseModelList", () => {
+    it("splits comma-separated names and keeps the first occurrence of duplicates", () => {
+        expect(parseModelList(" big:cloud , llama3:8b,big:cloud ", "--model")).toEqual(["big:cloud", "llama3:8b"]);
+        expect(parseModelList(["big:cloud", " llama3:8b "], "model")).toEqual(["big:cloud", "llama3:8b"]);
+    });
+
+    it("rejects lists without any model", () => {
+        expect(() => parseModelList(" , ", "--model")).toThrow("--model must be a non-empty string.");
+    });
+});
+
+describe("runWithModelFallback", () => {
+    it("moves to the next model on missing models, timeouts and server errors and keeps the fallback", async () => {
+        const chain = createModelChain(["big", "medium", "small", "tiny"]);
+        const run = vi.fn()
+            .mockRejectedValueOnce(new ProviderError("missing", "MODEL_NOT_FOUND"))
+            .mockRejectedValueOnce(new ProviderError("slow", "TIMEOUT"))
+            .mockRejectedValueOnce(new ProviderError("down", "HTTP_ERROR", { status: 503 }))
+            .mockResolvedValue("ok");
+
+        await expect(runWithModelFallback(chain, run)).resolves.toBe("ok");
+        await expect(runWithModelFallback(chain, run)).resolves.toBe("ok");
+
+        expect(run.mock.calls.map(([model]) => model)).toEqual(["big", "medium", "small", "tiny", "tiny"]);
+        expect(getActiveModel(chain)).toBe("tiny");
+        expect(getRequestedModel(chain)).toBe("big");
+    });
+
+    it("advances only once when parallel requests fail on the same model", async () => {
+        const chain = createModelChain(["big", "medium", "small"]);
+        const run = async (model: string): Promise<string> => {
+            await new Promise((resolve) => setTimeout(resolve, 0));
+            if (model === "big") throw new ProviderError("missing", "MODEL_NOT_FOUND");
+            return model;
+        };
+
+        await expect(Promise.all([
+            runWithModelFallback(chain, run),
+            runWithModelFallback(chain, run)
+        ])).resolves.toEqual(["medium", "medium"]);
+        expect(getActiveModel(chain)).toBe("medium");
+    });
+
+    it("does not fall back on client errors or unreachable servers", async () => {
+        const chain = createModelChain(["big", "small"]);
+
+        await expect(runWithModelFallback(chain, async () => {
+            throw new ProviderError("bad request", "HTTP_ERROR", { status: 400 });
+        })).rejects.toMatchObject({ status: 400 });
+        await expect(runWithModelFallback(chain, async () => {
+            throw new ProviderError("down", "UNREACHABLE");
+        })).rejects.toMatchObject({ code: "UNREACHABLE" });
+        await expect(runWithModelFallback(chain, async () => {
+            throw new Error("boom");
+        })).rejects.toThrow("boom");
+
+        expect(getActiveModel(chain)).toBe("big");
+    });
+
+    it("falls back to the heuristic on provider failures except client errors, a user stop or replay mismatch", async () => {
+        const chain = createModelChain(["big", "small", "heuristic"]);
+
+        await expect(runWithModelFallback(chain, async () => {
+            throw new ProviderError("unauthorized", "HTTP_ERROR", { status: 401 });
+        })).rejects.toMatchObject({ status: 401 });
+        await expect(runWithModelFallback(chain, async () => {
+            throw new ProviderError("stopped", "ABORTED");
+        })).rejects.toThrow("stopped");
+        await expect(runWithModelFallback(chain, async () => {
+            throw new ProviderError("prompt changed", "REPLAY_MISMATCH");
+        })).rejects.toThrow("prompt changed");
+        await expect(runWithModelFallback(chain, async () => {
+            throw new Error("boom");
+        })).rejects.toThrow("boom");
+        expect(getActiveModel(chain)).toBe("big");
+
+        const run = vi.fn(async (model: string) => {
+            if (model === "heuristic") return "offline";
+            throw new ProviderError("down", "UNREACHABLE");
+        });
+        await expect(runWithModelFallback(chain, run)).resolves.toBe("offline");
+        expect(run.mock.calls.map(([model]) => model)).toEqual(["big", "heuristic"]);
+        expect(getActiveModel(chain)).toBe("heuristic");
+    });
+
+    it("rethrows the last failure once every model has been tried", async () => {
+        const chain = createModelChain(["big", "small"]);
+
+        await expect(runWithModelFallback(chain, async (model) => {
+            throw new ProviderError(`${model} missing`, "MODEL_NOT_FOUND");
+        })).rejects.toThrow("small missing");
+    });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { mergeModelOptions, varyTemperature } from "../../src/model-options.js";
+
+describe("mergeModelOptions", () => {
+    it("lets later sources override earlier ones key by key", () => {
+        expect(mergeModelOptions(
+            { temperature: 0.7, seed: 1, numCtx: 4096 },
+            null,
+            { seed: 42, topP: undefined },
+            { topP: 0.9 }
+        )).toEqual({ temperature: 0.7, seed: 42, numCtx: 4096, topP: 0.9 });
+    });
+});
+
+describe("varyTemperature", () => {
+    it("keeps the first attempt unchanged", () => {
+        const options = { seed: 3 };
+        expect(varyTemperature(options, 0)).toBe(options);
+    });
+
+    it("starts from the provider default when no temperature is configured and caps the result", () => {
+        expect(varyTemperature({ seed: 3 }, 2)).toEqual({ seed: 3, temperature: 1.1 });
+        expect(varyTemperature({ temperature: 1.9 }, 4)).toEqual({ temperature: 2 });
+    });
+});
@@ -2,10 +2,21 @@ import { afterEach, describe, expect, it, vi } from "vitest";
 import {
     checkOllamaConnection,
     ensureLocalModel,
+    getModelContextLength,
     listLocalModels,
     ollamaChat
 } from "../../src/ollama.js";
 
+function streamResponse(chunks: string[], opts?: { hold?: boolean }): Response {
+    const encoder = new TextEncoder();
+    return new Response(new ReadableStream<Uint8Array>({
+        start(controller) {
+            for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+            if (!opts?.hold) controller.close();
+        }
+    }), { status: 200 });
+}
+
 describe("ollama unit branches", () => {
     afterEach(() => {
         vi.restoreAllMocks();
@@ -42,6 +53,33 @@ describe("ollama unit branches", () => {
         await expect(ensureLocalModel("http://localhost:11434", "gpt-oss:120b-cloud", 1000)).resolves.toBeUndefined();
     });
 
+    it("reads the context window from /api/show, preferring a configured num_ctx", async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(Response.json({
+                parameters: "stop \"<|im_end|>\"\nnum_ctx 8192",
+                model_info: { "general.architecture": "qwen2", "qwen2.context_length": 32768 }
+            }))
+            .mockResolvedValueOnce(Response.json({
+                model_info: { "general.architecture": "qwen2", "qwen2.context_length": 32768 }
+            }))
+            .mockResolvedValueOnce(Response.json({}))
+            .mockResolvedValueOnce(new Response("not found", { status: 404 }))
+            .mockResolvedValueOnce(new Response("not-json", { status: 200 }));
+        vi.stubGlobal("fetch", fetchMock);
+
+        await expect(getModelContextLength("http://localhost:11434", "qwen2.5", 1000)).resolves.toBe(8192);
+        await expect(getModelContextLength("http://localhost:11434", "qwen2.5", 1000)).resolves.toBe(32768);
+        await expect(getModelContextLength("http://localhost:11434", "qwen2.5", 1000)).resolves.toBeNull();
+        await expect(getModelContextLength("http://localhost:11434", "qwen2.5", 1000))
+            .rejects.toMatchObject({ code: "HTTP_ERROR", status: 404 });
+        await expect(getModelContextLength("http://localhost:11434", "qwen2.5", 1000))
+            .rejects.toMatchObject({ code: "INVALID_RESPONSE" });
+        expect(fetchMock).toHaveBeenCalledWith("http://localhost:11434/api/show", expect.objectContaining({
+            method: "POST",
+            body: JSON.stringify({ model: "qwen2.5" })
+        }));
+    });
+
     it("returns false from checkOllamaConnection when fetch fails", async () => {
         vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new TypeError("fetch failed")));
 
@@ -60,6 +98,18 @@ describe("ollama unit branches", () => {
         })).rejects.toMatchObject({ code: "MODEL_NOT_FOUND" });
     });
 
+    it("returns INVALID_RESPONSE when the chat response is not valid json", async () => {
+        vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("<html>proxy error</html>", { status: 200 })));
+
+        await expect(() => ollamaChat({
+            host: "http://localhost:11434",
+            model: "gpt-oss:120b-cloud",
+            messages: [{ role: "user", content: "hello" }],
+            retries: 0,
+            timeoutMs: 1000
+        })).rejects.toMatchObject({ code: "INVALID_RESPONSE", message: "Failed to parse Ollama chat response." });
+    });
+
     it("returns INVALID_RESPONSE when chat content is empty", async () => {
         vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response(JSON.stringify({
             message: { content: "   " }
@@ -100,4 +150,189 @@ describe("ollama unit branches", () => {
             timeoutMs: 1000
         })).rejects.toMatchObject({ code: "HTTP_ERROR", message: "boom-string" });
     });
+
+    it("streams NDJSON chunks split across reads and reports accumulated content", async () => {
+        const fetchMock = vi.fn().mockResolvedValue(streamResponse([
+            "{\"message\":{\"content\":\"{\\\"message\\\":\"}}\n{\"mess",
+            "age\":{\"content\":\"\\\"feat: stream\\\"}\"}}\n",
+            "{\"done\":true}"
+        ]));
+        vi.stubGlobal("fetch", fetchMock);
+        const progress: string[] = [];
+
+        const content = await ollamaChat({
+            host: "http://localhost:11434",
+            model: "llama3",
+            messages: [{ role: "user", content: "hello" }],
+            retries: 0,
+            timeoutMs: 1000,
+            onProgress: (partial) => progress.push(partial)
+        });
+
+        expect(content).toBe("{\"message\":\"feat: stream\"}");
+        expect(progress).toEqual(["{\"message\":", "{\"message\":\"feat: stream\"}"]);
+        const [, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+        expect(JSON.parse(String(init.body))).toMatchObject({ stream: true });
+    });
+
+    it("surfaces error chunks and malformed lines from the chat stream", async () => {
+        const request = {
+            host: "http://localhost:11434",
+            model: "llama3",
+            messages: [{ role: "user" as const, content: "hello" }],
+            retries: 0,
+            timeoutMs: 1000,
+            onProgress: () => undefined
+        };
+
+        vi.stubGlobal("fetch", vi.fn().mockResolvedValue(streamResponse(["{\"error\":\"model crashed\"}\n"])));
+        await expect(() => ollamaChat(request)).rejects.toMatchObject({
+            code: "HTTP_ERROR",
+            message: "Ollama error: model crashed"
+        });
+
+        vi.stubGlobal("fetch", vi.fn().mockResolvedValue(streamResponse(["not-json\n"])));
+        await expect(() => ollamaChat(request)).rejects.toMatchObject({ code: "INVALID_RESPONSE" });
+    });
+
+    it("returns TIMEOUT when the chat stream stalls", async () => {
+        vi.stubGlobal("fetch", vi.fn().mockResolvedValue(streamResponse(["{\"message\":{\"content\":\"x\"}}\n"], { hold: true })));
+
+        await expect(() => ollamaChat({
+            host: "http://localhost:11434",
+            model: "llama3",
+            messages: [{ role: "user", content: "hello" }],
+            retries: 0,
+            timeoutMs: 20,
+            onProgress: () => undefined
+        })).rejects.toMatchObject({ code: "TIMEOUT", retryable: true });
+    });
+
+    it("returns ABORTED without retrying when the caller stops the request", async () => {
+        const fetchMock = vi.fn().mockImplementation(async (_url: string, init: RequestInit) => {
+            if (init.signal?.aborted) throw new DOMException("aborted", "AbortError");
+            return streamResponse([]);
+        });
+        vi.stubGlobal("fetch", fetchMock);
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(() => ollamaChat({
+            host: "http://localhost:11434",
+            model: "llama3",
+            messages: [{ role: "user", content: "hello" }],
+            retries: 2,
+            timeoutMs: 1000,
+            signal: controller.signal,
+            onProgress: () => undefined
+        })).rejects.toMatchObject({ code: "ABORTED", message: "Ollama request was stopped." });
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("returns ABORTED when the caller stops an in-flight stream", async () => {
+        const controller = new AbortController();
+        const body = new ReadableStream<Uint8Array>({
+            start(streamController) {
+                controller.signal.addEventListener("abort", () => {
+                    streamController.error(new DOMException("aborted", "AbortError"));
+                });
+            }
+        });
+        vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response(body, { status: 200 })));
+
+        const pending = ollamaChat({
+            host: "http://localhost:11434",
+            model: "llama3",
+            messages: [{ role: "user", content: "hello" }],
+            retries: 0,
+            timeoutMs: 1000,
+            signal: controller.signal,
+            onProgress: () => undefined
+        });
+        controller.abort();
+
+        await expect(pending).rejects.toMatchObject({ code: "ABORTED" });
+    });
+
+    it("sends configured model options as Ollama options", async () => {
+        const fetchMock = vi.fn().mockImplementation(async () => new Response(JSON.stringify({
+            message: { content: "fix: ok" }
+        }), { status: 200 }));
+        vi.stubGlobal("fetch", fetchMock);
+        const request = {
+            host: "http://localhost:11434",
+            model: "llama3",
+            messages: [{ role: "user" as const, content: "hello" }],
+            retries: 0,
+            timeoutMs: 1000
+        };
+
+        await ollamaChat({ ...request, modelOptions: { temperature: 0, seed: 42, numCtx: 16384, topP: 0.9 } });
+        await ollamaChat({ ...request, modelOptions: {} });
+
+        const bodies = fetchMock.mock.calls.map(([, init]) => JSON.parse(String((init as RequestInit).body)));
+        expect(bodies[0].options).toEqual({ temperature: 0, seed: 42, num_ctx: 16384, top_p: 0.9 });
+        expect(bodies[1]).not.toHaveProperty("options");
+    });
+
+    it("sends the response schema as the chat format", async () => {
+        const fetchMock = vi.fn().mockImplementation(async () => new Response(JSON.stringify({
+            message: { content: "{\"message\":\"fix: ok\"}" }
+        }), { status: 200 }));
+        vi.stubGlobal("fetch", fetchMock);
+        const schema = { type: "object", properties: { message: { type: "string" } }, required: ["message"] };
+
+        await ollamaChat({
+            host: "http://schema-host:11434",
+            model: "llama3",
+            messages: [{ role: "user", content: "hello" }],
+            json: true,
+            schema,
+            retries: 0,
+            timeoutMs: 1000
+        });
+
+        const [, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+        expect(JSON.parse(String(init.body)).format).toEqual(schema);
+    });
+
+    it("falls back to plain json format once the server rejects schemas and remembers the host", async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(new Response(
+                "{\"error\":\"json: cannot unmarshal object into Go struct field ChatRequest.format of type string\"}",
+                { status: 400 }
+            ))
+            .mockImplementation(async () => new Response(JSON.stringify({
+                message: { content: "{\"message\":\"fix: ok\"}" }
+            }), { status: 200 }));
+        vi.stubGlobal("fetch", fetchMock);
+        const request = {
+            host: "http://legacy-host:11434",
+            model: "llama3",
+            messages: [{ role: "user" as const, content: "hello" }],
+            json: true,
+            schema: { type: "object" },
+            retries: 0,
+            timeoutMs: 1000
+        };
+
+        await expect(ollamaChat(request)).resolves.toBe("{\"message\":\"fix: ok\"}");
+        await expect(ollamaChat(request)).resolves.toBe("{\"message\":\"fix: ok\"}");
+
+        const formats = fetchMock.mock.calls.map(([, init]) => JSON.parse(String((init as RequestInit).body)).format);
+        expect(formats).toEqual([{ type: "object" }, "json", "json"]);
+    });
+
+    it("does not treat unrelated bad requests as schema rejections", async () => {
+        vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("context length exceeded", { status: 400 })));
+
+        await expect(() => ollamaChat({
+            host: "http://strict-host:11434",
+            model: "llama3",
+            messages: [{ role: "user", content: "hello" }],
+            schema: { type: "object" },
+            retries: 0,
+            timeoutMs: 1000
+        })).rejects.toMatchObject({ code: "HTTP_ERROR", status: 400 });
+    });
 });
@@ -0,0 +1,207 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ensureOpenAiModel, listOpenAiModels, openAiChat } from "../../src/openai.js";
+
+function jsonResponse(payload: unknown, status = 200): Response {
+    return new Response(JSON.stringify(payload), {
+        status,
+        headers: { "content-type": "application/json" }
+    });
+}
+
+describe("openai-compatible client", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.unstubAllGlobals();
+    });
+
+    it("lists served model ids from /v1/models and accepts a /v1 base url", async () => {
+        const fetchMock = vi.fn().mockResolvedValue(jsonResponse({
+            data: [{ id: "qwen2.5-coder" }, { id: " " }, {}]
+        }));
+        vi.stubGlobal("fetch", fetchMock);
+
+        await expect(listOpenAiModels("http://gpu-box:8000/v1/", 1000, "secret")).resolves.toEqual(["qwen2.5-coder"]);
+        expect(fetchMock).toHaveBeenCalledWith("http://gpu-box:8000/v1/models", expect.objectContaining({
+            headers: expect.objectContaining({ authorization: "Bearer secret" })
+        }));
+    });
+
+    it("returns an auth hint for unauthorized model list responses", async () => {
+        vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("nope", { status: 401 })));
+
+        await expect(() => listOpenAiModels("http://gpu-box:8000", 1000))
+            .rejects
+            .toMatchObject({ code: "HTTP_ERROR", retryable: false, hint: expect.stringContaining("GIT_AI_API_KEY") });
+    });
+
+    it("returns INVALID_RESPONSE when /v1/models returns invalid json", async () => {
+        vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("not-json", { status: 200 })));
+
+        await expect(() => listOpenAiModels("http://gpu-box:8000", 1000))
+            .rejects
+            .toMatchObject({ code: "INVALID_RESPONSE" });
+    });
+
+    it("reports served models when the configured model is missing", async () => {
+        vi.stubGlobal("fetch", vi.fn().mockImplementation(async () => jsonResponse({ data: [{ id: "llama-3.1-8b" }] })));
+
+        await expect(ensureOpenAiModel("http://gpu-box:8000", "LLAMA-3.1-8B", 1000)).resolves.toBeUndefined();
+        await expect(() => ensureOpenAiModel("http://gpu-box:8000", "qwen", 1000))
+            .rejects
+            .toMatchObject({ code: "MODEL_NOT_FOUND", hint: "Set --model to one of: llama-3.1-8b." });
+    });
+
+    it("suggests loading a model when the server serves none", async () => {
+        vi.stubGlobal("fetch", vi.fn().mockResolvedValue(jsonResponse({})));
+
+        await expect(() => ensureOpenAiModel("http://gpu-box:8000", "qwen", 1000))
+            .rejects
+            .toMatchObject({ code: "MODEL_NOT_FOUND", hint: "Load a model on the server and try again." });
+    });
+
+    it("posts chat completions with json response format and returns the first choice", async () => {
+        const fetchMock = vi.fn().mockResolvedValue(jsonResponse({
+            choices: [{ message: { content: "{\"message\":\"feat: add provider\"}" } }]
+        }));
+        vi.stubGlobal("fetch", fetchMock);
+
+        const content = await openAiChat({
+            host: "http://gpu-box:8000",
+            model: "qwen",
+            messages: [{ role: "user", content: "hello" }],
+            json: true,
+            retries: 0,
+            timeoutMs: 1000
+        });
+
+        expect(content).toBe("{\"message\":\"feat: add provider\"}");
+        const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+        expect(url).toBe("http://gpu-box:8000/v1/chat/completions");
+        expect(JSON.parse(String(init.body))).toEqual({
+            model: "qwen",
+            messages: [{ role: "user", content: "hello" }],
+            stream: false,
+            response_format: { type: "json_object" }
+        });
+    });
+
+    it("maps sampling model options and skips the context window", async () => {
+        const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ choices: [{ message: { content: "fix: ok" } }] }));
+        vi.stubGlobal("fetch", fetchMock);
+
+        await openAiChat({
+            host: "http://gpu-box:8000",
+            model: "qwen",
+            messages: [{ role: "user", content: "hello" }],
+            modelOptions: { temperature: 0, seed: 42, numCtx: 16384, topP: 0.9 },
+            retries: 0,
+            timeoutMs: 1000
+        });
+
+        const [, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+        expect(JSON.parse(String(init.body))).toMatchObject({ temperature: 0, seed: 42, top_p: 0.9 });
+        expect(JSON.parse(String(init.body))).not.toHaveProperty("num_ctx");
+    });
+
+    it("requests a strict json schema and falls back to json_object when the server rejects it", async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(new Response("response_format json_schema is not supported", { status: 400 }))
+            .mockResolvedValueOnce(jsonResponse({ choices: [{ message: { content: "{\"message\":\"fix: ok\"}" } }] }));
+        vi.stubGlobal("fetch", fetchMock);
+        const schema = { type: "object", properties: { message: { type: "string" } } };
+
+        await expect(openAiChat({
+            host: "http://legacy-gpu-box:8000",
+            model: "qwen",
+            messages: [{ role: "user", content: "hello" }],
+            schema,
+            retries: 0,
+            timeoutMs: 1000
+        })).resolves.toBe("{\"message\":\"fix: ok\"}");
+
+        const formats = fetchMock.mock.calls.map(([, init]) => JSON.parse(String((init as RequestInit).body)).response_format);
+        expect(formats).toEqual([
+            { type: "json_schema", json_schema: { name: "commit_message", schema, strict: true } },
+            { type: "json_object" }
+        ]);
+    });
+
+    it("retries chat on transient server errors", async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(new Response("overloaded", { status: 503 }))
+            .mockResolvedValueOnce(jsonResponse({ choices: [{ message: { content: "fix: recover" } }] }));
+        vi.stubGlobal("fetch", fetchMock);
+
+        await expect(openAiChat({
+            host: "http://gpu-box:8000",
+            model: "qwen",
+            messages: [{ role: "user", content: "hello" }],
+            retries: 1,
+            timeoutMs: 1000
+        })).resolves.toBe("fix: recover");
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("returns MODEL_NOT_FOUND when chat returns a 404 model error", async () => {
+        vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("The model `qwen` does not exist", { status: 404 })));
+
+        await expect(() => openAiChat({
+            host: "http://gpu-box:8000",
+            model: "qwen",
+            messages: [{ role: "user", content: "hello" }],
+            retries: 0,
+            timeoutMs: 1000
+        })).rejects.toMatchObject({ code: "MODEL_NOT_FOUND" });
+    });
+
+    it("returns INVALID_RESPONSE when the completion has no content", async () => {
+        vi.stubGlobal("fetch", vi.fn().mockResolvedValue(jsonResponse({ choices: [{ message: { content: null } }] })));
+
+        await expect(() => openAiChat({
+            host: "http://gpu-box:8000",
+            model: "qwen",
+            messages: [{ role: "user", content: "hello" }],
+            retries: 0,
+            timeoutMs: 1000
+        })).rejects.toMatchObject({ code: "INVALID_RESPONSE" });
+    });
+
+    it("returns INVALID_RESPONSE when the completion is not valid json", async () => {
+        vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("<html>proxy error</html>", { status: 200 })));
+
+        await expect(() => openAiChat({
+            host: "http://gpu-box:8000",
+            model: "qwen",
+            messages: [{ role: "user", content: "hello" }],
+            retries: 0,
+            timeoutMs: 1000
+        })).rejects.toMatchObject({ code: "INVALID_RESPONSE" });
+    });
+
+    it("treats server errors that mention the schema as failures, not schema rejections", async () => {
+        const fetchMock = vi.fn().mockResolvedValue(new Response("failed to format response", { status: 500 }));
+        vi.stubGlobal("fetch", fetchMock);
+
+        await expect(() => openAiChat({
+            host: "http://gpu-box:8000",
+            model: "qwen",
+            messages: [{ role: "user", content: "hello" }],
+            schema: { type: "object" },
+            retries: 0,
+            timeoutMs: 1000
+        })).rejects.toMatchObject({ code: "HTTP_ERROR", status: 500 });
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("maps unreachable servers to UNREACHABLE errors", async () => {
+        vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new TypeError("fetch failed")));
+
+        await expect(() => openAiChat({
+            host: "http://gpu-box:8000",
+            model: "qwen",
+            messages: [{ role: "user", content: "hello" }],
+            retries: 0,
+            timeoutMs: 1000
+        })).rejects.toMatchObject({ code: "UNREACHABLE", message: "Cannot reach OpenAI-compatible server." });
+    });
+});
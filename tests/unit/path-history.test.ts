@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import type { HistoryEntry } from "../../src/history.js";
+import {
+    selectRelevantHistory,
+    suggestScopeFromHistory,
+    suggestTypeFromHistory,
+    toPathHistoryEntry
+} from "../../src/path-history.js";
+
+const HISTORY = [
+    toPathHistoryEntry("fix(billing): round invoice totals", ["src/billing/invoice.ts"]),
+    toPathHistoryEntry("feat(billing): add refunds\n\nRefs PAY-12", ["src/billing/refunds.ts", "src/billing/invoice.ts"]),
+    toPathHistoryEntry("fix(payments): retry webhooks", ["src/billing/webhooks.ts"]),
+    toPathHistoryEntry("docs: explain setup", ["docs/setup.md"]),
+    toPathHistoryEntry("update stuff", ["src/cli.ts"])
+];
+
+describe("toPathHistoryEntry", () => {
+    it("reads the type and scope from the subject", () => {
+        expect(HISTORY[1]).toEqual({ files: ["src/billing/refunds.ts", "src/billing/invoice.ts"], type: "feat", scope: "billing" });
+        expect(HISTORY[4]).toEqual({ files: ["src/cli.ts"], type: null, scope: null });
+    });
+});
+
+describe("suggestScopeFromHistory", () => {
+    it("uses the nearest previously committed path of each staged file", () => {
+        expect(suggestScopeFromHistory(["src/billing/invoice.ts"], HISTORY)).toEqual({
+            scope: "billing",
+            confidence: 1,
+            reasons: ["2 past commits touching these paths used scope billing"]
+        });
+        expect(suggestScopeFromHistory(["src/billing/tax.ts", "src/billing/invoice.ts"], HISTORY)).toMatchObject({
+            scope: "billing",
+            confidence: 0.83
+        });
+    });
+
+    it("ignores top-level structural directories and weak agreement", () => {
+        expect(suggestScopeFromHistory(["src/search.ts"], HISTORY)).toBeNull();
+        expect(suggestScopeFromHistory(["src/billing/webhooks.ts", "docs/setup.md"], HISTORY)).toBeNull();
+        expect(suggestScopeFromHistory(["src/billing/tax.ts", "src/search.ts"], HISTORY)).toBeNull();
+        expect(suggestScopeFromHistory([], HISTORY)).toBeNull();
+    });
+});
+
+describe("suggestTypeFromHistory", () => {
+    it("suggests the type most past commits on these paths used", () => {
+        expect(suggestTypeFromHistory(["src/billing/webhooks.ts"], HISTORY)).toEqual({
+            type: "fix",
+            confidence: 1,
+            source: "history",
+            reasons: ["1 past commit touching these paths used type fix"]
+        });
+        expect(suggestTypeFromHistory(["src/billing/tax.ts"], HISTORY)).toMatchObject({ type: "fix", confidence: 0.67 });
+    });
+});
+
+describe("selectRelevantHistory", () => {
+    const entry = (message: string, files: string[], scope: string | null = null): HistoryEntry =>
+        ({ createdAt: "", message, edited: false, scope, ticket: null, files });
+
+    it("ranks shared files over shared directories and scope, then falls back to recency", () => {
+        const entries = [
+            entry("docs: fix typo", ["README.md"]),
+            entry("feat(api): add search", ["src/api/search/index.ts"], "api"),
+            entry("chore(api): tidy exports", ["package.json"], "api"),
+            entry("fix(api): handle timeouts", ["src/api/search/query.ts"], "api"),
+            entry("test: cover cli", ["tests/cli.test.ts"])
+        ];
+
+        expect(selectRelevantHistory(entries, ["src/api/search/query.ts"], "api", 4).map((item) => item.message)).toEqual([
+            "fix(api): handle timeouts",
+            "feat(api): add search",
+            "chore(api): tidy exports",
+            "docs: fix typo"
+        ]);
+        expect(selectRelevantHistory(entries, ["lib/other.ts"], null, 2).map((item) => item.message))
+            .toEqual(["docs: fix typo", "feat(api): add search"]);
+    });
+});
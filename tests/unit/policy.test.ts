@@ -45,4 +45,18 @@ describe("lintCommitMessage", () => {
         expect(result.ok).toBe(false);
         expect(result.errors[0]).toContain("Subject line > 20 chars");
     });
+
+    it("accepts either breaking change marker and can require both", () => {
+        const pattern = "([A-Z][A-Z0-9]+-\\d+)";
+        const footerOnly = "feat(cli): drop --max-chars\n\nBREAKING CHANGE: use --budget instead";
+        expect(lintCommitMessage(footerOnly, resolveCommitPolicy({}), pattern).ok).toBe(true);
+        expect(lintCommitMessage("feat(cli)!: drop --max-chars", resolveCommitPolicy({}), pattern).ok).toBe(true);
+
+        const policy = resolveCommitPolicy({ requireBreakingFooter: true });
+        expect(lintCommitMessage(footerOnly, policy, pattern).errors)
+            .toEqual(['A "BREAKING CHANGE:" footer needs "!" after the type or scope.']);
+        expect(lintCommitMessage("feat(cli)!: drop --max-chars", policy, pattern).errors)
+            .toEqual(['Breaking changes marked with "!" need a "BREAKING CHANGE:" footer.']);
+        expect(lintCommitMessage("feat(cli)!: drop --max-chars\n\nBREAKING CHANGE: use --budget instead", policy, pattern).ok).toBe(true);
+    });
 });
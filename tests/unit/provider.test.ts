@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const ollamaMock = {
+    ollamaChat: vi.fn(),
+    listLocalModels: vi.fn(),
+    ensureLocalModel: vi.fn()
+};
+const openAiMock = {
+    openAiChat: vi.fn(),
+    listOpenAiModels: vi.fn(),
+    ensureOpenAiModel: vi.fn()
+};
+
+vi.mock("../../src/ollama.js", () => ollamaMock);
+vi.mock("../../src/openai.js", () => openAiMock);
+
+const { createProvider, isProviderName, parseProviderName } = await import("../../src/provider.js");
+
+describe("createProvider", () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it("routes ollama calls to the Ollama client with the configured host", async () => {
+        ollamaMock.ollamaChat.mockResolvedValue("ok");
+        ollamaMock.listLocalModels.mockResolvedValue(["llama3:latest"]);
+        const provider = createProvider({ provider: "ollama", host: "http://localhost:11434" });
+
+        expect(provider.label).toBe("Ollama");
+        await expect(provider.chat({ model: "llama3", messages: [], json: true })).resolves.toBe("ok");
+        await expect(provider.listModels(1000)).resolves.toEqual(["llama3:latest"]);
+        await provider.healthCheck("llama3", 1000);
+
+        expect(ollamaMock.ollamaChat).toHaveBeenCalledWith({
+            host: "http://localhost:11434",
+            model: "llama3",
+            messages: [],
+            json: true
+        });
+        expect(ollamaMock.ensureLocalModel).toHaveBeenCalledWith("http://localhost:11434", "llama3", 1000);
+        expect(openAiMock.openAiChat).not.toHaveBeenCalled();
+    });
+
+    it("routes openai calls to the OpenAI-compatible client with the api key", async () => {
+        openAiMock.openAiChat.mockResolvedValue("ok");
+        openAiMock.listOpenAiModels.mockResolvedValue(["qwen"]);
+        const provider = createProvider({ provider: "openai", host: "http://gpu-box:8000", apiKey: "secret" });
+
+        expect(provider.label).toBe("OpenAI-compatible");
+        await expect(provider.chat({ model: "qwen", messages: [] })).resolves.toBe("ok");
+        await expect(provider.listModels(1000)).resolves.toEqual(["qwen"]);
+        await provider.healthCheck("qwen", 1000);
+
+        expect(openAiMock.openAiChat).toHaveBeenCalledWith({
+            host: "http://gpu-box:8000",
+            apiKey: "secret",
+            model: "qwen",
+            messages: []
+        });
+        expect(openAiMock.listOpenAiModels).toHaveBeenCalledWith("http://gpu-box:8000", 1000, "secret");
+        expect(openAiMock.ensureOpenAiModel).toHaveBeenCalledWith("http://gpu-box:8000", "qwen", 1000, "secret");
+        expect(ollamaMock.ollamaChat).not.toHaveBeenCalled();
+    });
+
+    it("answers the heuristic model itself on every provider", async () => {
+        const changes = {
+            diff: "diff --git a/README.md b/README.md\n+more docs",
+            files: ["README.md"],
+            type: null,
+            scope: null,
+            allowedTypes: []
+        };
+        const provider = createProvider({ provider: "ollama", host: "http://localhost:11434" });
+
+        await expect(provider.chat({ model: "heuristic", messages: [], changes }))
+            .resolves.toBe("{\"message\":\"docs: update readme\"}");
+        await provider.healthCheck("heuristic", 1000);
+
+        const heuristic = createProvider({ provider: "heuristic", host: "http://localhost:11434" });
+        expect(heuristic.label).toBe("Heuristic");
+        await expect(heuristic.chat({ model: "heuristic", messages: [], changes }))
+            .resolves.toBe("{\"message\":\"docs: update readme\"}");
+        await expect(heuristic.listModels(1000)).resolves.toEqual(["heuristic"]);
+        await expect(heuristic.healthCheck("anything", 1000)).resolves.toBeUndefined();
+
+        expect(ollamaMock.ollamaChat).not.toHaveBeenCalled();
+        expect(ollamaMock.ensureLocalModel).not.toHaveBeenCalled();
+    });
+});
+
+describe("parseProviderName", () => {
+    it("normalizes known provider names", () => {
+        expect(isProviderName("openai")).toBe(true);
+        expect(parseProviderName(" Ollama ", "--provider")).toBe("ollama");
+    });
+
+    it("rejects unknown provider names", () => {
+        expect(() => parseProviderName("bedrock", "--provider")).toThrow("--provider must be one of: ollama, openai, heuristic.");
+    });
+});
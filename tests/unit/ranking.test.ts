@@ -57,4 +57,44 @@ describe("rankCandidates", () => {
         expect(breakdown.ticketFooterPresent).toBe(true);
         expect(breakdown.total).toBe(1_111_100);
     });
+
+    it("rewards candidates that name a touched symbol", () => {
+        const context = {
+            expectedType: null,
+            expectedScope: null,
+            ticket: null,
+            subjectMaxLength: 72,
+            touchedSymbols: ["loadRepoConfig", "DEFAULT_IGNORE_FILE"]
+        };
+        const [first] = rankCandidates([
+            { message: "feat: update config loading", source: "model", validation: { ok: true } },
+            { message: "feat: read ignore file in loadRepoConfig", source: "model", validation: { ok: true } }
+        ], context);
+
+        expect(first.message).toBe("feat: read ignore file in loadRepoConfig");
+        expect(first.scoreBreakdown).toMatchObject({ touchedSymbolMentioned: true, touchedSymbolPoints: 50 });
+        expect(getScoreBreakdown("feat: add loadRepoConfigs", { ok: true }, context).touchedSymbolMentioned).toBe(false);
+    });
+
+    it("penalizes paths and identifiers that do not appear in the diff or file list", () => {
+        const context = {
+            expectedType: null,
+            expectedScope: null,
+            ticket: "ABC-123",
+            subjectMaxLength: 72,
+            evidence: "diff --git a/src/config.ts b/src/config.ts\n+export function loadRepoConfig() {}\nsrc/config.ts"
+        };
+
+        const grounded = getScoreBreakdown("fix: read defaults in loadRepoConfig\n\nTouches config.ts.\n\nRefs ABC-123", { ok: true }, context);
+        expect(grounded).toMatchObject({ unknownReferencePenalty: false, unknownReferencePoints: 0, unknownReferences: [] });
+
+        const invented = getScoreBreakdown(
+            "fix: retry chargeCard in src/billing/stripe.ts\n\nAlso updates `MAX_RETRIES` and retry_policy for Node.js users.",
+            { ok: true },
+            context
+        );
+        expect(invented.unknownReferences).toEqual(["MAX_RETRIES", "src/billing/stripe.ts", "Node.js", "chargeCard", "retry_policy"]);
+        expect(invented.unknownReferencePoints).toBe(-500);
+        expect(getScoreBreakdown("fix: retry chargeCard", { ok: true }, { ...context, evidence: undefined }).unknownReferences).toEqual([]);
+    });
 });
@@ -0,0 +1,173 @@
+import { mkdtemp, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it, vi } from "vitest";
+import type { LlmProvider, ProviderChatRequest } from "../../src/provider.js";
+import { ProviderError } from "../../src/provider-http.js";
+import { createRecording, describeReplayMismatch, RECORDING_VERSION, withRecording } from "../../src/recording.js";
+import { WorkflowError } from "../../src/workflow-errors.js";
+
+async function tempRecordingPath(): Promise<string> {
+    return join(await mkdtemp(join(tmpdir(), "commitgen-recording-")), "fixtures", "run.json");
+}
+
+function fakeProvider(chat: LlmProvider["chat"]): LlmProvider {
+    return {
+        name: "ollama",
+        label: "Ollama",
+        chat,
+        listModels: vi.fn(async () => ["llama3"]),
+        healthCheck: vi.fn(async () => undefined),
+        contextLength: vi.fn(async () => 8192)
+    };
+}
+
+function chatRequest(content: string, overrides: Partial<ProviderChatRequest> = {}): ProviderChatRequest {
+    return {
+        model: "llama3",
+        messages: [
+            { role: "system", content: "Write a commit message." },
+            { role: "user", content }
+        ],
+        json: true,
+        timeoutMs: 1000,
+        retries: 2,
+        modelOptions: { temperature: 0 },
+        ...overrides
+    };
+}
+
+describe("record and replay", () => {
+    it("records each exchange to a fixture file without transport settings", async () => {
+        const path = await tempRecordingPath();
+        const provider = withRecording(
+            fakeProvider(async (request) => `{"message":"feat: ${request.messages[1].content}"}`),
+            createRecording("record", path)
+        );
+
+        await expect(provider.chat(chatRequest("add a"))).resolves.toBe("{\"message\":\"feat: add a\"}");
+        await provider.chat(chatRequest("add b"));
+
+        const saved = JSON.parse(await readFile(path, "utf8")) as { version: number; exchanges: unknown[] };
+        expect(saved.version).toBe(RECORDING_VERSION);
+        expect(saved.exchanges).toEqual([
+            {
+                request: {
+                    model: "llama3",
+                    messages: [
+                        { role: "system", content: "Write a commit message." },
+                        { role: "user", content: "add a" }
+                    ],
+                    json: true,
+                    modelOptions: { temperature: 0 }
+                },
+                response: "{\"message\":\"feat: add a\"}"
+            },
+            expect.objectContaining({ response: "{\"message\":\"feat: add b\"}" })
+        ]);
+    });
+
+    it("keeps every exchange when parallel requests finish out of order", async () => {
+        const path = await tempRecordingPath();
+        const provider = withRecording(
+            fakeProvider(async (request) => {
+                await new Promise((resolve) => setTimeout(resolve, request.messages[1].content === "slow" ? 20 : 0));
+                return request.messages[1].content;
+            }),
+            createRecording("record", path)
+        );
+
+        await Promise.all([provider.chat(chatRequest("slow")), provider.chat(chatRequest("fast"))]);
+
+        const saved = JSON.parse(await readFile(path, "utf8")) as { exchanges: Array<{ response: string }> };
+        expect(saved.exchanges.map((exchange) => exchange.response)).toEqual(["fast", "slow"]);
+    });
+
+    it("replays recorded responses in order without calling the provider", async () => {
+        const path = await tempRecordingPath();
+        const recorder = withRecording(
+            fakeProvider(vi.fn()
+                .mockResolvedValueOnce("first")
+                .mockResolvedValueOnce("second")
+                .mockResolvedValueOnce("other")),
+            createRecording("record", path)
+        );
+        await expect(recorder.contextLength("llama3", 1000)).resolves.toBe(8192);
+        await recorder.chat(chatRequest("same"));
+        await recorder.chat(chatRequest("same"));
+        await recorder.chat(chatRequest("different"));
+
+        const liveChat = vi.fn();
+        const live = fakeProvider(liveChat);
+        const replayer = withRecording(live, createRecording("replay", path));
+        const onProgress = vi.fn();
+
+        await expect(replayer.healthCheck("llama3", 1000)).resolves.toBeUndefined();
+        await expect(replayer.listModels(1000)).resolves.toEqual(["llama3"]);
+        await expect(replayer.contextLength("llama3", 1000)).resolves.toBe(8192);
+        await expect(replayer.contextLength("qwen", 1000)).resolves.toBeNull();
+        await expect(replayer.chat(chatRequest("different", { timeoutMs: 5000, onProgress }))).resolves.toBe("other");
+        await expect(replayer.chat(chatRequest("same"))).resolves.toBe("first");
+        await expect(replayer.chat(chatRequest("same"))).resolves.toBe("second");
+        await expect(replayer.chat(chatRequest("same"))).resolves.toBe("second");
+        expect(onProgress).toHaveBeenCalledWith("other");
+        expect(liveChat).not.toHaveBeenCalled();
+        expect(live.healthCheck).not.toHaveBeenCalled();
+        expect(live.contextLength).not.toHaveBeenCalled();
+    });
+
+    it("fails replay with a diff against the closest recorded request", async () => {
+        const path = await tempRecordingPath();
+        const recorder = withRecording(fakeProvider(async () => "ok"), createRecording("record", path));
+        await recorder.chat(chatRequest("Files:\nsrc/a.ts\nsrc/b.ts\n\nDiff:\n+const a = 1;"));
+        await recorder.chat(chatRequest("unrelated"));
+
+        const replayer = withRecording(fakeProvider(vi.fn()), createRecording("replay", path));
+        const error = await replayer.chat(chatRequest("Files:\nsrc/a.ts\nsrc/c.ts\n\nDiff:\n+const a = 1;"))
+            .catch((caught: unknown) => caught);
+
+        expect(error).toBeInstanceOf(ProviderError);
+        expect((error as ProviderError).code).toBe("REPLAY_MISMATCH");
+        expect((error as ProviderError).hint).toContain("--record");
+        expect((error as ProviderError).message).toBe([
+            `Request does not match any exchange in recording "${path}".`,
+            "Closest recorded request (- recorded, + current):",
+            "  Files:",
+            "  src/a.ts",
+            "- src/b.ts",
+            "+ src/c.ts",
+            "  ",
+            "  Diff:"
+        ].join("\n"));
+    });
+
+    it("describes model and option changes and truncates long diffs", () => {
+        const recorded = [{ request: { model: "llama3", messages: [{ role: "user" as const, content: "a" }] }, response: "ok" }];
+        const changed = {
+            model: "qwen",
+            messages: [{ role: "user" as const, content: Array.from({ length: 60 }, (_, index) => `line ${index}`).join("\n") }]
+        };
+
+        const description = describeReplayMismatch(recorded, changed);
+        expect(description).toContain("- model: llama3\n+ model: qwen");
+        expect(description).toContain("- a\n+ line 0");
+        expect(description).toMatch(/… \d+ more lines$/);
+        expect(describeReplayMismatch([], changed)).toBe("The recording does not contain any requests.");
+    });
+
+    it("reports missing or malformed recordings as usage errors", async () => {
+        const path = await tempRecordingPath();
+        const missing = withRecording(fakeProvider(vi.fn()), createRecording("replay", path));
+        await expect(missing.healthCheck("llama3", 1000)).rejects.toBeInstanceOf(WorkflowError);
+
+        const invalidPath = join(await mkdtemp(join(tmpdir(), "commitgen-recording-")), "run.json");
+        await writeFile(invalidPath, JSON.stringify({ version: RECORDING_VERSION, exchanges: [{ request: {} }] }), "utf8");
+        const invalid = withRecording(fakeProvider(vi.fn()), createRecording("replay", invalidPath));
+        await expect(invalid.chat(chatRequest("a"))).rejects.toThrow(`Recording "${invalidPath}" is not a valid commitgen recording.`);
+    });
+
+    it("leaves the provider untouched without a recording", () => {
+        const provider = fakeProvider(vi.fn());
+        expect(withRecording(provider, null)).toBe(provider);
+    });
+});
@@ -0,0 +1,92 @@
+import { mkdtemp, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+    CACHE_TTL_MS,
+    createCacheKey,
+    MAX_CACHE_ENTRIES,
+    readCachedResponse,
+    resolveCachePath,
+    writeCachedResponse
+} from "../../src/response-cache.js";
+
+async function tempCachePath(): Promise<string> {
+    return resolveCachePath(await mkdtemp(join(tmpdir(), "commitgen-cache-")));
+}
+
+describe("response cache", () => {
+    it("stores the cache next to local history under the git dir", () => {
+        expect(resolveCachePath("/repo/.git")).toBe("/repo/.git/commitgen/response-cache.json");
+    });
+
+    it("derives stable keys that change with any part of the request", () => {
+        const request = { model: "llama3", modelOptions: { temperature: 0 }, messages: [{ role: "user", content: "diff" }] };
+
+        expect(createCacheKey(request)).toBe(createCacheKey({ ...request }));
+        expect(createCacheKey(request)).not.toBe(createCacheKey({ ...request, model: "qwen" }));
+        expect(createCacheKey(request)).not.toBe(createCacheKey({ ...request, modelOptions: { temperature: 0.15 } }));
+    });
+
+    it("returns stored responses until they expire", async () => {
+        const cachePath = await tempCachePath();
+
+        await expect(readCachedResponse(cachePath, "key")).resolves.toBeNull();
+        await writeCachedResponse(cachePath, "key", "{\"message\":\"feat: add cache\"}", 1000);
+
+        await expect(readCachedResponse(cachePath, "key", 1000 + CACHE_TTL_MS - 1)).resolves.toBe("{\"message\":\"feat: add cache\"}");
+        await expect(readCachedResponse(cachePath, "key", 1000 + CACHE_TTL_MS)).resolves.toBeNull();
+        await expect(readCachedResponse(cachePath, "other", 1000)).resolves.toBeNull();
+    });
+
+    it("replaces entries for the same key and keeps only the newest entries", async () => {
+        const cachePath = await tempCachePath();
+
+        await writeCachedResponse(cachePath, "key", "old", 1000);
+        await writeCachedResponse(cachePath, "key", "new", 2000);
+        await expect(readCachedResponse(cachePath, "key", 2000)).resolves.toBe("new");
+
+        for (let index = 0; index < MAX_CACHE_ENTRIES; index += 1) {
+            await writeCachedResponse(cachePath, `key-${index}`, `output-${index}`, 3000 + index);
+        }
+
+        const stored = JSON.parse(await readFile(cachePath, "utf8")) as Array<{ key: string }>;
+        expect(stored).toHaveLength(MAX_CACHE_ENTRIES);
+        await expect(readCachedResponse(cachePath, "key", 4000)).resolves.toBeNull();
+        await expect(readCachedResponse(cachePath, "key-0", 4000)).resolves.toBe("output-0");
+    });
+
+    it("keeps every entry when writes to the same file overlap", async () => {
+        const cachePath = await tempCachePath();
+
+        await Promise.all(Array.from({ length: 5 }, async (_, index) => {
+            await writeCachedResponse(cachePath, `key-${index}`, `output-${index}`, 1000);
+        }));
+
+        const stored = JSON.parse(await readFile(cachePath, "utf8")) as Array<{ key: string }>;
+        expect(stored.map((entry) => entry.key).sort()).toEqual(["key-0", "key-1", "key-2", "key-3", "key-4"]);
+    });
+
+    it("drops expired entries on write and ignores unreadable cache files", async () => {
+        const cachePath = await tempCachePath();
+
+        await writeCachedResponse(cachePath, "stale", "old", 1000);
+        await writeCachedResponse(cachePath, "fresh", "new", 1000 + CACHE_TTL_MS);
+        const stored = JSON.parse(await readFile(cachePath, "utf8")) as Array<{ key: string }>;
+        expect(stored.map((entry) => entry.key)).toEqual(["fresh"]);
+
+        await writeFile(cachePath, "{broken", "utf8");
+        await expect(readCachedResponse(cachePath, "fresh")).resolves.toBeNull();
+
+        await writeFile(cachePath, JSON.stringify([{ key: "fresh" }, { key: "ok", createdAt: 1, output: "x" }]), "utf8");
+        await expect(readCachedResponse(cachePath, "ok", 2)).resolves.toBe("x");
+        await expect(readCachedResponse(cachePath, "fresh", 2)).resolves.toBeNull();
+    });
+
+    it("does not fail when the cache cannot be written", async () => {
+        const root = await mkdtemp(join(tmpdir(), "commitgen-cache-"));
+        await writeFile(join(root, "commitgen"), "not a directory", "utf8");
+
+        await expect(writeCachedResponse(resolveCachePath(root), "key", "output")).resolves.toBeUndefined();
+    });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { annotateStagedChanges, formatStagedChange, isPureRename, parseNameStatus } from "../../src/staged-changes.js";
+
+describe("staged changes", () => {
+    it("parses name-status output including renames, copies and type changes", () => {
+        const output = ["A", "src/new.ts", "D", "src/gone.ts", "R087", "src/old.ts", "src/moved.ts", "C100", "a.txt", "b.txt", "T", "link", "M", "path with spaces.md", ""].join("\0");
+
+        expect(parseNameStatus(output)).toEqual([
+            { path: "src/new.ts", status: "added", previousPath: null, similarity: null, modeChange: null, binary: false },
+            { path: "src/gone.ts", status: "deleted", previousPath: null, similarity: null, modeChange: null, binary: false },
+            { path: "src/moved.ts", status: "renamed", previousPath: "src/old.ts", similarity: 87, modeChange: null, binary: false },
+            { path: "b.txt", status: "copied", previousPath: "a.txt", similarity: 100, modeChange: null, binary: false },
+            { path: "link", status: "type-changed", previousPath: null, similarity: null, modeChange: null, binary: false },
+            { path: "path with spaces.md", status: "modified", previousPath: null, similarity: null, modeChange: null, binary: false }
+        ]);
+        expect(parseNameStatus("")).toEqual([]);
+    });
+
+    it("reads mode changes and binary content from the diff headers", () => {
+        const diff = [
+            "diff --git a/bin/run b/bin/run",
+            "old mode 100644",
+            "new mode 100755",
+            "diff --git a/logo.png b/logo.png",
+            "new file mode 100644",
+            "index 0000000..2222222",
+            "Binary files /dev/null and b/logo.png differ",
+            "diff --git a/src/a.ts b/src/a.ts",
+            "@@ -1 +1 @@",
+            "+old mode 100644"
+        ].join("\n");
+        const changes = parseNameStatus("M\0bin/run\0A\0logo.png\0M\0src/a.ts\0M\0README.md\0");
+
+        expect(annotateStagedChanges(changes, diff).map(formatStagedChange)).toEqual([
+            "modified: bin/run (mode 100644 -> 100755)",
+            "added: logo.png (binary)",
+            "modified: src/a.ts",
+            "modified: README.md"
+        ]);
+    });
+
+    it("formats renames with their similarity and only treats unchanged content as a pure rename", () => {
+        const [pure, edited] = parseNameStatus("R100\0src/old.ts\0src/new.ts\0R072\0a.ts\0b.ts\0");
+
+        expect(formatStagedChange(pure)).toBe("renamed: src/old.ts -> src/new.ts (100% similar)");
+        expect(isPureRename(pure)).toBe(true);
+        expect(isPureRename(edited)).toBe(false);
+        expect(isPureRename({ ...pure, modeChange: { from: "100644", to: "100755" } })).toBe(false);
+    });
+});
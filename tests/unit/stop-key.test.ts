@@ -0,0 +1,58 @@
+import { EventEmitter } from "node:events";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { watchForStopKey } from "../../src/stop-key.js";
+
+function createInput(opts: { isTTY?: boolean; isRaw?: boolean } = {}) {
+    const emitter = new EventEmitter();
+    return Object.assign(emitter, {
+        isTTY: opts.isTTY ?? true,
+        isRaw: opts.isRaw ?? false,
+        setRawMode: vi.fn(),
+        resume: vi.fn(),
+        pause: vi.fn()
+    });
+}
+
+describe("watchForStopKey", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("does nothing when input is not an interactive terminal", () => {
+        const input = createInput({ isTTY: false });
+
+        expect(watchForStopKey(input, vi.fn())).toBeNull();
+        expect(input.setRawMode).not.toHaveBeenCalled();
+    });
+
+    it("stops once on the first key press and restores the terminal", () => {
+        const input = createInput();
+        const onStop = vi.fn();
+
+        const release = watchForStopKey(input, onStop);
+        expect(input.setRawMode).toHaveBeenCalledWith(true);
+        expect(input.resume).toHaveBeenCalled();
+
+        input.emit("data", Buffer.from("r"));
+        input.emit("data", Buffer.from("r"));
+        release?.();
+
+        expect(onStop).toHaveBeenCalledTimes(1);
+        expect(input.setRawMode).toHaveBeenLastCalledWith(false);
+        expect(input.pause).toHaveBeenCalledTimes(1);
+        expect(input.listenerCount("data")).toBe(0);
+    });
+
+    it("re-raises SIGINT for Ctrl+C instead of regenerating", () => {
+        const input = createInput({ isRaw: true });
+        const onStop = vi.fn();
+        const killSpy = vi.spyOn(process, "kill").mockImplementation(() => true);
+
+        watchForStopKey(input, onStop);
+        input.emit("data", Buffer.from([0x03]));
+
+        expect(killSpy).toHaveBeenCalledWith(process.pid, "SIGINT");
+        expect(onStop).not.toHaveBeenCalled();
+        expect(input.setRawMode).toHaveBeenLastCalledWith(true);
+    });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { extractTouchedSymbols } from "../../src/symbols.js";
+
+function fileDiff(path: string, lines: string[]): string {
+    return [`diff --git a/${path} b/${path}`, `--- a/${path}`, `+++ b/${path}`, ...lines].join("\n");
+}
+
+describe("extractTouchedSymbols", () => {
+    it("reads TypeScript declarations, export lists and hunk header context", () => {
+        const diff = fileDiff("src/config.ts", [
+            "@@ -10,6 +10,7 @@ export async function loadRepoConfig(repoRoot: string) {",
+            "+    const parsed = JSON.parse(raw);",
+            "@@ -40,3 +41,8 @@ function expectOptionalString(",
+            "+export const DEFAULT_IGNORE_FILE = \".commitgenignore\";",
+            "+export type RepoConfig = {",
+            "-class LegacyLoader {",
+            "+export { parseIgnoreFile, globToRegExp as toRegExp };"
+        ]);
+
+        expect(extractTouchedSymbols(diff)).toEqual([
+            "loadRepoConfig",
+            "expectOptionalString",
+            "DEFAULT_IGNORE_FILE",
+            "RepoConfig",
+            "LegacyLoader",
+            "parseIgnoreFile",
+            "toRegExp"
+        ]);
+    });
+
+    it("reads Python and Go functions, methods and types", () => {
+        const diff = [
+            fileDiff("app/models.py", [
+                "@@ -1,3 +1,4 @@ class Invoice:",
+                "+    async def total_amount(self):",
+                "+        return sum(line.amount for line in self.lines)"
+            ]),
+            fileDiff("server/handler.go", [
+                "@@ -5,2 +5,6 @@ func (s *Server) HandleLogin(w http.ResponseWriter) {",
+                "+type SessionStore interface {",
+                "+func newSessionStore() SessionStore {"
+            ])
+        ].join("\n");
+
+        expect(extractTouchedSymbols(diff)).toEqual(["Invoice", "total_amount", "HandleLogin", "SessionStore", "newSessionStore"]);
+    });
+
+    it("reads changed JSON and YAML keys and skips unknown file types and context lines", () => {
+        const diff = [
+            fileDiff("package.json", ["@@ -1,4 +1,4 @@", "   \"name\": \"commitgen-cc\",", "-  \"version\": \"1.2.0\",", "+  \"version\": \"1.3.0\","]),
+            fileDiff(".github/workflows/ci.yml", ["@@ -3,2 +3,3 @@", "+  - name: Run tests", "+    timeout-minutes: 10"]),
+            fileDiff("notes.txt", ["@@ -1 +1 @@", "+function notCode() {}"]),
+            "diff --git a/dist/index.js b/dist/index.js\n... diff excluded from the prompt (+10 -2)"
+        ].join("\n");
+
+        expect(extractTouchedSymbols(diff)).toEqual(["version", "name", "timeout-minutes"]);
+        expect(extractTouchedSymbols("plain text")).toEqual([]);
+    });
+});
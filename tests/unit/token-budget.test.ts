@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import {
+    buildPromptBudget,
+    estimateMessageTokens,
+    estimateTokens,
+    MIN_DIFF_BUDGET_CHARS,
+    resolveMaxDiffChars,
+    resolveRequestContextTokens
+} from "../../src/token-budget.js";
+
+describe("token budget", () => {
+    it("estimates tokens at about four characters each plus per-message overhead", () => {
+        expect(estimateTokens("")).toBe(0);
+        expect(estimateTokens("abcde")).toBe(2);
+        expect(estimateMessageTokens([
+            { role: "system", content: "a".repeat(40) },
+            { role: "user", content: "b".repeat(8) }
+        ])).toBe(10 + 4 + 2 + 4);
+    });
+
+    it("gives the diff what the context window leaves, capped by maxChars", () => {
+        expect(resolveMaxDiffChars(16000, null, 900)).toBe(16000);
+        expect(resolveMaxDiffChars(16000, 4096, 1000)).toBe((4096 - 1000 - 512) * 4);
+        expect(resolveMaxDiffChars(5000, 32768, 1000)).toBe(5000);
+        expect(resolveMaxDiffChars(16000, 1024, 1000)).toBe(MIN_DIFF_BUDGET_CHARS);
+    });
+
+    it("reports the estimated prompt and whether the diff was cut", () => {
+        expect(buildPromptBudget({
+            contextTokens: 4096,
+            baseTokens: 300,
+            diff: "x".repeat(1000),
+            digest: { text: "x".repeat(400), truncated: true },
+            maxDiffChars: 400
+        })).toEqual({
+            contextTokens: 4096,
+            promptTokens: 400,
+            diffTokens: 100,
+            diffChars: 1000,
+            maxDiffChars: 400,
+            truncated: true
+        });
+    });
+
+    it("sizes the requested window to the prompt, rounded up to a power of two within the model's window", () => {
+        const budget = { promptTokens: 5000, diffTokens: 4000, diffChars: 16000, maxDiffChars: 16000, truncated: false };
+
+        expect(resolveRequestContextTokens({ ...budget, contextTokens: null })).toBeNull();
+        expect(resolveRequestContextTokens({ ...budget, contextTokens: 131072 })).toBe(8192);
+        expect(resolveRequestContextTokens({ ...budget, promptTokens: 400, contextTokens: 131072 })).toBe(2048);
+        expect(resolveRequestContextTokens({ ...budget, contextTokens: 6000 })).toBe(6000);
+    });
+});
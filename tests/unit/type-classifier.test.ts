@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import type { StagedChange } from "../../src/staged-changes.js";
+import { classifyCommitType } from "../../src/type-classifier.js";
+
+function fileDiff(path: string, lines: number, line = "+line"): string {
+    return [`diff --git a/${path} b/${path}`, "@@ -1 +1 @@", ...Array.from({ length: lines }, () => line)].join("\n");
+}
+
+function change(path: string, overrides: Partial<StagedChange> = {}): StagedChange {
+    return { path, status: "modified", previousPath: null, similarity: null, modeChange: null, binary: false, ...overrides };
+}
+
+describe("classifyCommitType", () => {
+    it("settles the type when every file shares a category", () => {
+        expect(classifyCommitType({ diff: fileDiff(".eslintrc.json", 2) + "\n" + fileDiff("tsconfig.build.json", 1) })).toEqual({
+            type: "chore",
+            confidence: 1,
+            source: "diff",
+            reasons: ["2 changed files, all tooling config"]
+        });
+        expect(classifyCommitType({ diff: fileDiff("bench/parse.bench.ts", 4) })?.type).toBe("perf");
+        expect(classifyCommitType({ diff: fileDiff("README.md", 1) })?.type).toBe("docs");
+    });
+
+    it("treats changes that only move files as a refactor", () => {
+        const changes = [change("src/new.ts", { status: "renamed", previousPath: "src/old.ts", similarity: 100 })];
+        expect(classifyCommitType({ diff: "", changes })).toMatchObject({
+            type: "refactor",
+            confidence: 1,
+            reasons: ["1 change, all pure renames"]
+        });
+    });
+
+    it("reads fix branches before weighing mixed changes", () => {
+        const diff = `${fileDiff("src/auth.ts", 3)}\n${fileDiff("tests/auth.test.ts", 10)}`;
+
+        for (const branch of ["fix/login-redirect", "bugfix-123", "user/hotfix/token"]) {
+            expect(classifyCommitType({ diff, branch })).toEqual({
+                type: "fix",
+                confidence: 0.8,
+                source: "branch",
+                reasons: [`branch ${branch} names a fix`]
+            });
+        }
+        expect(classifyCommitType({ diff: fileDiff("docs/guide.md", 1), branch: "fix/typo" })?.type).toBe("docs");
+    });
+
+    it("picks the category that holds most of the changed lines", () => {
+        const diff = `${fileDiff("src/auth.ts", 3)}\n${fileDiff("tests/auth.test.ts", 9)}`;
+        expect(classifyCommitType({ diff, branch: "feature/login" })).toEqual({
+            type: "test",
+            confidence: 0.75,
+            source: "diff",
+            reasons: ["9 of 12 changed lines are in test files"]
+        });
+
+        const caching = `${fileDiff("src/lookup.ts", 8, "+const cached = memoize(load);")}\n${fileDiff("README.md", 2)}`;
+        expect(classifyCommitType({ diff: caching })).toMatchObject({ type: "perf", confidence: 0.8 });
+    });
+
+    it("weighs only the caching lines of a source file towards perf", () => {
+        const functions = Array.from({ length: 40 }, (_, index) => `+export function step${index}() {}`);
+        const diff = [
+            "diff --git a/src/pipeline.ts b/src/pipeline.ts",
+            "@@ -1 +1 @@",
+            "+// results are not cached here",
+            ...functions
+        ].join("\n");
+
+        expect(classifyCommitType({ diff })).toBeNull();
+    });
+
+    it("leaves source-heavy or evenly mixed changes unclassified", () => {
+        expect(classifyCommitType({ diff: `${fileDiff("src/a.ts", 10)}\n${fileDiff("README.md", 2)}` })).toBeNull();
+        expect(classifyCommitType({ diff: `${fileDiff("README.md", 5)}\n${fileDiff("tests/a.test.ts", 5)}` })).toBeNull();
+        expect(classifyCommitType({ diff: "" })).toBeNull();
+    });
+});
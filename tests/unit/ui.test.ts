@@ -14,19 +14,38 @@ import {
 
 function baseContext(): ContextDiagnostics {
     return {
+        model: {
+            value: "llama3",
+            requested: "llama3"
+        },
         expectedType: {
             value: "feat",
-            source: "diff"
+            source: "diff",
+            confidence: null,
+            reasons: []
         },
         scope: {
             suggested: "cli",
             effective: "cli",
-            source: "changed-files"
+            source: "changed-files",
+            confidence: null,
+            reasons: [],
+            owners: []
         },
         ticket: {
             value: "ABC-123",
             source: "branch"
-        }
+        },
+        tokens: {
+            contextWindow: null,
+            estimatedPrompt: 420,
+            estimatedDiff: 120,
+            diffChars: 480,
+            maxDiffChars: 16000,
+            truncated: false
+        },
+        redactions: [],
+        examples: { selection: "relevant", subjects: [] }
     };
 }
 
@@ -50,6 +69,7 @@ function baseCandidate(overrides: Partial<CandidateDiagnostics> = {}): Candidate
             ok: true,
             errors: []
         },
+        warnings: [],
         ranking: {
             valid: true,
             validPoints: 1_000_000,
@@ -61,8 +81,13 @@ function baseCandidate(overrides: Partial<CandidateDiagnostics> = {}): Candidate
             expectedScopePoints: 1_000,
             ticketFooterPresent: true,
             ticketFooterPoints: 100,
+            touchedSymbolMentioned: false,
+            touchedSymbolPoints: 0,
             genericDescriptionPenalty: false,
             genericDescriptionPoints: 0,
+            unknownReferencePenalty: false,
+            unknownReferencePoints: 0,
+            unknownReferences: [],
             total: 1_111_100
         },
         ...overrides
@@ -98,6 +123,7 @@ describe("ui renderers", () => {
             "│ signals valid · type-match · scope-match · ticket-footer · subject-fit       │",
             "│ score 1111100 · 1 alternative                                                │",
             "│ type diff · scope files · ticket branch                                      │",
+            "│ prompt ~420 tokens, full diff                                                │",
             "╰──────────────────────────────────────────────────────────────────────────────╯"
         ].join("\n"));
     });
@@ -174,6 +200,7 @@ describe("ui renderers", () => {
                     "Message must reference a ticket."
                 ]
             },
+            warnings: [],
             ranking: {
                 valid: false,
                 validPoints: 0,
@@ -185,8 +212,13 @@ describe("ui renderers", () => {
                 expectedScopePoints: 0,
                 ticketFooterPresent: false,
                 ticketFooterPoints: 0,
+                touchedSymbolMentioned: false,
+                touchedSymbolPoints: 0,
                 genericDescriptionPenalty: true,
                 genericDescriptionPoints: -10,
+                unknownReferencePenalty: false,
+                unknownReferencePoints: 0,
+                unknownReferences: [],
                 total: -10
             }
         });
@@ -234,6 +266,7 @@ describe("ui renderers", () => {
                     source: "none"
                 }
             },
+            warnings: [],
             ranking: {
                 valid: false,
                 validPoints: 0,
@@ -245,32 +278,57 @@ describe("ui renderers", () => {
                 expectedScopePoints: 0,
                 ticketFooterPresent: false,
                 ticketFooterPoints: 0,
+                touchedSymbolMentioned: false,
+                touchedSymbolPoints: 0,
                 genericDescriptionPenalty: false,
                 genericDescriptionPoints: 0,
+                unknownReferencePenalty: false,
+                unknownReferencePoints: 0,
+                unknownReferences: [],
                 total: 0
             }
         });
 
         expect(renderExplainBlock(ui, {
+            model: {
+                value: "llama3",
+                requested: "llama3"
+            },
             expectedType: {
                 value: null,
-                source: "none"
+                source: "none",
+                confidence: null,
+                reasons: []
             },
             scope: {
                 suggested: null,
                 effective: null,
-                source: "none"
+                source: "none",
+                confidence: null,
+                reasons: [],
+                owners: []
             },
             ticket: {
                 value: null,
                 source: "none"
-            }
+            },
+            tokens: {
+                contextWindow: 8192,
+                estimatedPrompt: 900,
+                estimatedDiff: 300,
+                diffChars: 1200,
+                maxDiffChars: 16000,
+                truncated: false
+            },
+            redactions: [],
+            examples: { selection: "recent", subjects: [] }
         }, minimalCandidate)).toBe([
             "+----------------------------------------------------------------------+",
             "| Why it won                                                           |",
             "+----------------------------------------------------------------------+",
             "| signals baseline fit                                                 |",
             "| score 0                                                              |",
+            "| prompt ~900 of 8192 tokens, full diff                                |",
             "+----------------------------------------------------------------------+"
         ].join("\n"));
     });
@@ -368,4 +426,126 @@ describe("ui renderers", () => {
             "  next: Run `ollama pull gpt-oss:120b-cloud` and retry."
         ].join("\n"));
     });
+
+    it("reports a model fallback in the explain block", () => {
+        const context = {
+            ...baseContext(),
+            model: { value: "llama3.1:8b", requested: "gpt-oss:120b-cloud" }
+        };
+
+        expect(renderExplainBlock(createTerminalUi({ isTTY: false, columns: 80 }), context, baseCandidate()))
+            .toContain("model: llama3.1:8b (fallback from gpt-oss:120b-cloud)");
+        expect(renderExplainBlock(createTerminalUi({ isTTY: false, columns: 80 }, { forceRichLayout: true }), context, baseCandidate()))
+            .toContain("model llama3.1:8b (fallback from gpt-oss:120b-cloud)");
+    });
+
+    it("reports estimated token usage and diff truncation in the explain block", () => {
+        const context = {
+            ...baseContext(),
+            tokens: {
+                contextWindow: 4096,
+                estimatedPrompt: 3580,
+                estimatedDiff: 3000,
+                diffChars: 52000,
+                maxDiffChars: 12000,
+                truncated: true
+            }
+        };
+
+        expect(renderExplainBlock(createTerminalUi({ isTTY: false, columns: 80 }), context, baseCandidate()))
+            .toContain("prompt: ~3580 of 4096 tokens, diff truncated to 12000 of 52000 chars");
+        expect(renderExplainBlock(createTerminalUi({ isTTY: false, columns: 80 }), baseContext(), baseCandidate()))
+            .toContain("prompt: ~420 tokens, full diff");
+    });
+
+    it("shows candidate warnings on the review screen", () => {
+        const warning = "The message does not mention anything from the staged changes.";
+        const candidate = baseCandidate({ warnings: [warning] });
+
+        expect(renderReviewScreen(createTerminalUi({ isTTY: false, columns: 80 }), baseContext(), candidate))
+            .toBe(`${candidate.message}\n\nwarnings:\n- ${warning}`);
+        expect(renderReviewScreen(createTerminalUi({ isTTY: false, columns: 80 }, { forceRichLayout: true }), baseContext(), candidate))
+            .toContain("Check before committing");
+    });
+
+    it("lists redacted secrets per file in the explain block", () => {
+        const context = {
+            ...baseContext(),
+            redactions: [{ file: ".env", count: 2 }, { file: "config/app.json", count: 1 }]
+        };
+
+        expect(renderExplainBlock(createTerminalUi({ isTTY: false, columns: 80 }), context, baseCandidate()))
+            .toContain("redacted: 3 secrets in .env (2), config/app.json (1)");
+        expect(renderExplainBlock(createTerminalUi({ isTTY: false, columns: 80 }), baseContext(), baseCandidate()))
+            .not.toContain("redacted");
+    });
+
+    it("shows references missing from the diff in the explain block", () => {
+        const candidate = baseCandidate();
+        const flagged = baseCandidate({
+            ranking: {
+                ...candidate.ranking,
+                unknownReferencePenalty: true,
+                unknownReferencePoints: -500,
+                unknownReferences: ["src/billing.ts", "chargeCard"]
+            }
+        });
+
+        expect(renderExplainBlock(createTerminalUi({ isTTY: false, columns: 80 }), baseContext(), flagged))
+            .toContain("not in diff: src/billing.ts, chargeCard");
+        expect(renderExplainBlock(createTerminalUi({ isTTY: false, columns: 80 }, { forceRichLayout: true }), baseContext(), flagged))
+            .toContain("not in diff src/billing.ts, chargeCard");
+        expect(renderExplainBlock(createTerminalUi({ isTTY: false, columns: 80 }), baseContext(), candidate))
+            .not.toContain("not in diff");
+    });
+
+    it("explains where an inferred type came from", () => {
+        const context = {
+            ...baseContext(),
+            expectedType: { value: "fix", source: "branch" as const, confidence: 0.8, reasons: ["branch fix/login names a fix"] }
+        };
+
+        expect(renderExplainBlock(createTerminalUi({ isTTY: false, columns: 80 }), context, baseCandidate()))
+            .toContain("type: fix 80%: branch fix/login names a fix");
+        expect(renderExplainBlock(createTerminalUi({ isTTY: false, columns: 80 }), baseContext(), baseCandidate()))
+            .not.toContain("type:");
+    });
+
+    it("explains a scope learned from past commits", () => {
+        const base = baseContext();
+        const context = {
+            ...base,
+            scope: { ...base.scope, source: "history" as const, confidence: 0.83, reasons: ["5 past commits touching these paths used scope cli"] }
+        };
+
+        expect(renderExplainBlock(createTerminalUi({ isTTY: false, columns: 80 }), context, baseCandidate()))
+            .toContain("scope: cli 83%: 5 past commits touching these paths used scope cli");
+        expect(renderExplainBlock(createTerminalUi({ isTTY: false, columns: 80 }), base, baseCandidate()))
+            .not.toContain("scope:");
+    });
+
+    it("lists the history examples chosen for the prompt", () => {
+        const context = {
+            ...baseContext(),
+            examples: { selection: "relevant" as const, subjects: ["fix(cli): handle --dry-run", "feat(cli): add --explain"] }
+        };
+
+        expect(renderExplainBlock(createTerminalUi({ isTTY: false, columns: 80 }), context, baseCandidate()))
+            .toContain("examples (relevant): fix(cli): handle --dry-run; feat(cli): add --explain");
+        expect(renderExplainBlock(createTerminalUi({ isTTY: false, columns: 80 }), baseContext(), baseCandidate()))
+            .not.toContain("examples");
+    });
+
+    it("credits CODEOWNERS for the scope and lists the owners as reviewers", () => {
+        const base = baseContext();
+        const context = { ...base, scope: { ...base.scope, source: "codeowners" as const, owners: ["@acme/cli-team", "@octocat"] } };
+        const candidate = baseCandidate();
+        candidate.final.scope.source = "codeowners";
+
+        const plain = renderExplainBlock(createTerminalUi({ isTTY: false, columns: 80 }), context, candidate);
+        expect(plain).toContain("scope codeowners");
+        expect(plain).toContain("reviewers: @acme/cli-team, @octocat");
+        expect(renderExplainBlock(createTerminalUi({ isTTY: false, columns: 80 }, { forceRichLayout: true }), context, candidate))
+            .toContain("reviewers @acme/cli-team, @octocat");
+    });
 });
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { clampDiff, parseBoundedInteger } from "../../src/util.js";
+import { clampDiff, parseBoundedInteger, parseBoundedNumber } from "../../src/util.js";
 
 describe("clampDiff", () => {
     it("returns original diff when below limit", () => {
@@ -33,3 +33,15 @@ describe("parseBoundedInteger", () => {
         expect(() => parseBoundedInteger("9", "--timeout-ms", 10, 100)).toThrow("--timeout-ms must be between 10 and 100.");
     });
 });
+
+describe("parseBoundedNumber", () => {
+    it("parses decimal values within range", () => {
+        expect(parseBoundedNumber("0.25", "--top-p", 0, 1)).toBe(0.25);
+    });
+
+    it("rejects empty, non-numeric and out-of-range values", () => {
+        expect(() => parseBoundedNumber(" ", "--temperature", 0, 2)).toThrow("--temperature must be a number.");
+        expect(() => parseBoundedNumber("0.5x", "--temperature", 0, 2)).toThrow("--temperature must be a number.");
+        expect(() => parseBoundedNumber("2.5", "--temperature", 0, 2)).toThrow("--temperature must be between 0 and 2.");
+    });
+});
@@ -1,7 +1,9 @@
 import { describe, expect, it } from "vitest";
+import type { StagedChange } from "../../src/staged-changes.js";
 import {
     extractMessageFromModelOutput,
     extractMessageListFromModelOutput,
+    extractPartialMessageFromModelOutput,
     inferTypeFromDiff,
     parseConventionalSubject,
     repairMessage,
@@ -28,6 +30,20 @@ describe("validateMessage", () => {
     });
 });
 
+describe("extractPartialMessageFromModelOutput", () => {
+    it("decodes the message field of incomplete json output", () => {
+        expect(extractPartialMessageFromModelOutput("{\"mess")).toBe("");
+        expect(extractPartialMessageFromModelOutput("{\"message\": \"feat: add\\nBody \\\"x\\\" \\u00e9")).toBe("feat: add\nBody \"x\" é");
+        expect(extractPartialMessageFromModelOutput("{\"message\":\"fix: done\"}")).toBe("fix: done");
+    });
+
+    it("stops at incomplete escape sequences and passes plain text through", () => {
+        expect(extractPartialMessageFromModelOutput("{\"message\":\"fix: a\\")).toBe("fix: a");
+        expect(extractPartialMessageFromModelOutput("{\"message\":\"fix: a\\u00")).toBe("fix: a");
+        expect(extractPartialMessageFromModelOutput("fix: plain output")).toBe("fix: plain output");
+    });
+});
+
 describe("extractMessageFromModelOutput", () => {
     it("extracts message from strict json output", () => {
         const raw = "{\"message\":\"fix: handle null response\"}";
@@ -118,6 +134,17 @@ describe("repairMessage", () => {
 
         expect(repaired.message).toBe("feat: add retries");
     });
+
+    it("keeps \"!\" and the BREAKING CHANGE footer consistent", () => {
+        const base = { diff: "diff --git a/src/config.ts b/src/config.ts", forcedType: null, scope: "config" };
+
+        expect(repairMessage({ ...base, message: "feat(config)!: drop legacy loader" }).message)
+            .toBe("feat(config)!: drop legacy loader");
+        expect(repairMessage({ ...base, message: "feat: drop legacy loader\n\nBREAKING CHANGE: readLegacyConfig is gone" }).message)
+            .toBe("feat(config)!: drop legacy loader\n\nBREAKING CHANGE: readLegacyConfig is gone");
+        expect(repairMessage({ ...base, message: "feat!: drop legacy loader", ticket: "ABC-1", requireBreakingFooter: true }).message)
+            .toBe("feat(config)!: drop legacy loader\n\nBREAKING CHANGE: drop legacy loader\n\nRefs ABC-1");
+    });
 });
 
 describe("parseConventionalSubject", () => {
@@ -173,4 +200,20 @@ describe("inferTypeFromDiff", () => {
 
         expect(inferTypeFromDiff(diff)).toBe("build");
     });
+
+    it("leans refactor when every staged change is a pure rename", () => {
+        const rename = (from: string, to: string, similarity: number): StagedChange => ({
+            path: to,
+            status: "renamed",
+            previousPath: from,
+            similarity,
+            modeChange: null,
+            binary: false
+        });
+        const diff = "diff --git a/src/old.ts b/src/new.ts\nsimilarity index 100%";
+
+        expect(inferTypeFromDiff(diff, [rename("src/old.ts", "src/new.ts", 100)])).toBe("refactor");
+        expect(inferTypeFromDiff(diff, [rename("src/old.ts", "src/new.ts", 80)])).toBeNull();
+        expect(inferTypeFromDiff(diff, [rename("docs/a.md", "docs/b.md", 100)])).toBe("docs");
+    });
 });
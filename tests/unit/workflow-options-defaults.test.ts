@@ -68,6 +68,25 @@ describe("buildDefaultWorkflowOptions", () => {
         delete process.env.GIT_AI_MODEL;
     });
 
+    it("reads GIT_AI_PROVIDER and GIT_AI_API_KEY from the environment when set", () => {
+        process.env.GIT_AI_PROVIDER = "OpenAI";
+        process.env.GIT_AI_API_KEY = "secret";
+        const opts = buildDefaultWorkflowOptions();
+        expect(opts.provider).toBe("openai");
+        expect(opts.apiKey).toBe("secret");
+        delete process.env.GIT_AI_PROVIDER;
+        delete process.env.GIT_AI_API_KEY;
+    });
+
+    it("rejects an unknown GIT_AI_PROVIDER value", () => {
+        process.env.GIT_AI_PROVIDER = "bogus";
+        try {
+            expect(() => buildDefaultWorkflowOptions()).toThrow("GIT_AI_PROVIDER must be one of: ollama, openai, heuristic.");
+        } finally {
+            delete process.env.GIT_AI_PROVIDER;
+        }
+    });
+
     it("returns null for model when GIT_AI_MODEL is not set", () => {
         delete process.env.GIT_AI_MODEL;
         const opts = buildDefaultWorkflowOptions();
@@ -1,10 +1,15 @@
+import { resolve } from "node:path";
 import { describe, expect, it } from "vitest";
 import { resolveWorkflowOptions, type WorkflowOptions } from "../../src/workflow.js";
 
 function baseOptions(overrides: Partial<WorkflowOptions> = {}): WorkflowOptions {
     return {
+        provider: null,
         model: null,
         host: null,
+        apiKey: null,
+        modelOptions: {},
+        heuristicFallback: null,
         maxChars: null,
         type: null,
         scope: null,
@@ -18,8 +23,13 @@ function baseOptions(overrides: Partial<WorkflowOptions> = {}): WorkflowOptions
         output: "text",
         configPath: null,
         candidates: null,
+        concurrency: null,
         ticket: null,
         history: null,
+        cache: true,
+        record: null,
+        replay: null,
+        strategy: null,
         ...overrides
     };
 }
@@ -52,6 +62,88 @@ describe("resolveWorkflowOptions", () => {
         expect(resolved.candidates).toBe(1);
     });
 
+    it("resolves request concurrency from CLI, then repo config, then the default", () => {
+        expect(resolveWorkflowOptions(baseOptions(), {}).concurrency).toBe(1);
+        expect(resolveWorkflowOptions(baseOptions(), { concurrency: 3 }).concurrency).toBe(3);
+        expect(resolveWorkflowOptions(baseOptions({ concurrency: 2 }), { concurrency: 3 }).concurrency).toBe(2);
+        expect(() => resolveWorkflowOptions(baseOptions(), { concurrency: 9 })).toThrow("--concurrency must be between 1 and 5.");
+    });
+
+    it("selects relevant history examples unless the repo asks for recent ones", () => {
+        expect(resolveWorkflowOptions(baseOptions(), {}).historySelection).toBe("relevant");
+        expect(resolveWorkflowOptions(baseOptions(), { historySelection: "recent" }).historySelection).toBe("recent");
+    });
+
+    it("resolves the generation strategy and map-reduce factor", () => {
+        expect(resolveWorkflowOptions(baseOptions(), {})).toMatchObject({ strategy: "auto", mapReduceFactor: 4 });
+        expect(resolveWorkflowOptions(baseOptions(), { strategy: "direct", mapReduceFactor: 8 }))
+            .toMatchObject({ strategy: "direct", mapReduceFactor: 8 });
+        expect(resolveWorkflowOptions(baseOptions({ strategy: "map-reduce" }), { strategy: "direct" }).strategy).toBe("map-reduce");
+        expect(() => resolveWorkflowOptions(baseOptions(), { mapReduceFactor: 1 })).toThrow("mapReduceFactor must be between 2 and 100.");
+    });
+
+    it("adds repo prompt exclusions after the built-in lockfile and build output patterns", () => {
+        expect(resolveWorkflowOptions(baseOptions(), {}).promptExclude).toEqual(expect.arrayContaining(["package-lock.json", "dist/", "*.min.js"]));
+        expect(resolveWorkflowOptions(baseOptions(), { promptExclude: ["!dist/"] }).promptExclude.at(-1)).toBe("!dist/");
+    });
+
+    it("redacts secrets without blocking unless the repo config asks for it", () => {
+        expect(resolveWorkflowOptions(baseOptions(), {})).toMatchObject({ redactPatterns: [], blockOnSecrets: false });
+        expect(resolveWorkflowOptions(baseOptions(), { redactPatterns: ["ACME-\\d+"], blockOnSecrets: true }))
+            .toMatchObject({ redactPatterns: ["ACME-\\d+"], blockOnSecrets: true });
+    });
+
+    it("resolves the provider from CLI, then repo config, then the default", () => {
+        expect(resolveWorkflowOptions(baseOptions(), {}).provider).toBe("ollama");
+        expect(resolveWorkflowOptions(baseOptions(), { provider: "openai" }).provider).toBe("openai");
+        expect(resolveWorkflowOptions(baseOptions({ provider: "ollama" }), { provider: "openai" }).provider).toBe("ollama");
+    });
+
+    it("merges CLI model options over repo config model options", () => {
+        const resolved = resolveWorkflowOptions(baseOptions({
+            modelOptions: { temperature: 0 }
+        }), {
+            modelOptions: { temperature: 0.7, numCtx: 32768 }
+        });
+
+        expect(resolved.modelOptions).toEqual({ temperature: 0, numCtx: 32768 });
+    });
+
+    it("resolves model fallback chains from CLI lists or repo config arrays", () => {
+        const fromCli = resolveWorkflowOptions(baseOptions({ model: "big:cloud, llama3:8b" }), {
+            model: ["repo-model"]
+        });
+        expect(fromCli.model).toBe("big:cloud");
+        expect(fromCli.modelChain).toEqual({ models: ["big:cloud", "llama3:8b"], activeIndex: 0 });
+
+        const fromConfig = resolveWorkflowOptions(baseOptions(), { model: ["repo-big", "repo-small"] });
+        expect(fromConfig.modelChain.models).toEqual(["repo-big", "repo-small"]);
+    });
+
+    it("appends the heuristic as a last resort only when enabled and uses only it for the heuristic provider", () => {
+        expect(resolveWorkflowOptions(baseOptions(), {}).modelChain.models).toEqual(["gpt-oss:120b-cloud"]);
+        expect(resolveWorkflowOptions(baseOptions(), { heuristicFallback: true }).modelChain.models)
+            .toEqual(["gpt-oss:120b-cloud", "heuristic"]);
+        expect(resolveWorkflowOptions(baseOptions({ heuristicFallback: false }), { heuristicFallback: true }).modelChain.models)
+            .toEqual(["gpt-oss:120b-cloud"]);
+
+        const heuristic = resolveWorkflowOptions(baseOptions({ provider: "heuristic", model: "llama3" }), {});
+        expect(heuristic.model).toBe("heuristic");
+        expect(heuristic.modelChain.models).toEqual(["heuristic"]);
+    });
+
+    it("resolves record and replay paths, bypasses the cache, and rejects using both", () => {
+        const recorded = resolveWorkflowOptions(baseOptions({ record: "fixtures/run.json" }), {});
+        expect(recorded.recording).toMatchObject({ mode: "record", path: resolve(process.cwd(), "fixtures/run.json") });
+        expect(recorded.cacheEnabled).toBe(false);
+
+        expect(resolveWorkflowOptions(baseOptions({ replay: "/tmp/run.json" }), {}).recording)
+            .toMatchObject({ mode: "replay", path: "/tmp/run.json" });
+        expect(resolveWorkflowOptions(baseOptions(), {}).recording).toBeNull();
+        expect(() => resolveWorkflowOptions(baseOptions({ record: "a.json", replay: "b.json" }), {}))
+            .toThrow("--record and --replay cannot be used together.");
+    });
+
     it("still allows CLI candidate overrides explicitly", () => {
         const resolved = resolveWorkflowOptions(baseOptions({
             candidates: 3
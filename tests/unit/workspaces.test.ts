@@ -0,0 +1,72 @@
+import { mkdir, mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { detectWorkspaces, findOwningPackage } from "../../src/workspaces.js";
+
+async function createRepo(files: Record<string, string>): Promise<string> {
+    const repoDir = await mkdtemp(join(tmpdir(), "commitgen-workspaces-"));
+    for (const [path, content] of Object.entries(files)) {
+        await mkdir(dirname(join(repoDir, path)), { recursive: true });
+        await writeFile(join(repoDir, path), content);
+    }
+    return repoDir;
+}
+
+describe("detectWorkspaces", () => {
+    it("returns no packages outside a monorepo", async () => {
+        const repoDir = await createRepo({ "package.json": JSON.stringify({ name: "single" }), "src/index.ts": "" });
+        await expect(detectWorkspaces(repoDir)).resolves.toEqual([]);
+        await expect(detectWorkspaces(join(repoDir, "missing"))).resolves.toEqual([]);
+    });
+
+    it("reads npm and pnpm workspace globs, honouring excludes", async () => {
+        const repoDir = await createRepo({
+            "package.json": JSON.stringify({ workspaces: { packages: ["packages/*"] } }),
+            "pnpm-workspace.yaml": "packages:\n  - 'apps/*'\n  - \"!apps/legacy\" # retired\nonlyBuiltDependencies:\n  - esbuild\n",
+            "packages/ui/package.json": JSON.stringify({ name: "@acme/ui-kit" }),
+            "packages/notes/README.md": "",
+            "apps/web/package.json": JSON.stringify({}),
+            "apps/legacy/package.json": JSON.stringify({ name: "legacy" }),
+            "node_modules/dep/package.json": JSON.stringify({ name: "dep" })
+        });
+
+        await expect(detectWorkspaces(repoDir)).resolves.toEqual(expect.arrayContaining([
+            { name: "ui-kit", path: "packages/ui" },
+            { name: "web", path: "apps/web" }
+        ]));
+        expect(await detectWorkspaces(repoDir)).toHaveLength(2);
+    });
+
+    it("reads Cargo, Go and Nx workspaces", async () => {
+        const repoDir = await createRepo({
+            "Cargo.toml": "[workspace]\nmembers = [\"crates/*\"]\n",
+            "crates/parser/Cargo.toml": "[package]\nname = \"acme-parser\"\nversion = \"0.1.0\"\n",
+            "go.work": "go 1.22\n\nuse (\n\t.\n\t./services/billing // payments\n)\n",
+            "services/billing/go.mod": "module github.com/acme/billing\n",
+            "nx.json": "{}",
+            "workspace.json": JSON.stringify({ projects: { admin: "apps/admin/" } }),
+            "libs/shared/project.json": JSON.stringify({ name: "shared-utils" }),
+            "apps/admin/project.json": JSON.stringify({ name: "admin-app" })
+        });
+
+        const packages = await detectWorkspaces(repoDir);
+        expect(packages).toHaveLength(4);
+        expect(packages).toEqual(expect.arrayContaining([
+            { name: "acme-parser", path: "crates/parser" },
+            { name: "billing", path: "services/billing" },
+            { name: "admin", path: "apps/admin" },
+            { name: "shared-utils", path: "libs/shared" }
+        ]));
+    });
+});
+
+describe("findOwningPackage", () => {
+    it("picks the most specific package that contains the file", () => {
+        const packages = [{ name: "web", path: "apps/web" }, { name: "web-e2e", path: "apps/web/e2e" }];
+
+        expect(findOwningPackage("apps/web/e2e/login.spec.ts", packages)?.name).toBe("web-e2e");
+        expect(findOwningPackage("apps/web/src/app.tsx", packages)?.name).toBe("web");
+        expect(findOwningPackage("apps/website/index.ts", packages)).toBeNull();
+    });
+});